@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "sales_forecast"."RoundingMode" AS ENUM ('floor', 'largest_remainder', 'largest_share');
+
+-- AlterTable
+ALTER TABLE "sales_forecast"."sessions" ADD COLUMN "rounding_mode" "sales_forecast"."RoundingMode" NOT NULL DEFAULT 'largest_remainder';
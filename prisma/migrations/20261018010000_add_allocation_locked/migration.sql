@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sales_forecast"."allocations" ADD COLUMN "locked" BOOLEAN NOT NULL DEFAULT false;
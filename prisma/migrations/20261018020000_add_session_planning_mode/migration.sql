@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "sales_forecast"."PlanningMode" AS ENUM ('top_down', 'bottom_up');
+
+-- AlterTable
+ALTER TABLE "sales_forecast"."sessions" ADD COLUMN "planning_mode" "sales_forecast"."PlanningMode" NOT NULL DEFAULT 'top_down';
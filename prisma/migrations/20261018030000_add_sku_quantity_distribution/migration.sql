@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "sales_forecast"."QuantityDistribution" AS ENUM ('price_weighted', 'equal_units');
+
+-- AlterTable
+ALTER TABLE "sales_forecast"."sessions" ADD COLUMN "quantity_distribution" "sales_forecast"."QuantityDistribution" NOT NULL DEFAULT 'price_weighted';
+
+-- AlterTable
+ALTER TABLE "sales_forecast"."allocations" ADD COLUMN "sku_quantities" JSONB;
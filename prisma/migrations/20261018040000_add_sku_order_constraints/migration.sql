@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "sales_forecast"."sku_data" ADD COLUMN "case_size" INTEGER,
+ADD COLUMN "min_order_qty" INTEGER;
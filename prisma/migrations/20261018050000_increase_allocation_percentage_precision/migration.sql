@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "sales_forecast"."allocations" ALTER COLUMN "percentage" SET DATA TYPE DECIMAL(12,8);
+
+-- Re-derive existing percentages from the stored amounts so splits such as 33.33 x 3 keep their exact share
+UPDATE "sales_forecast"."allocations" AS child
+SET "percentage" = ROUND(child."amount"::numeric * 100 / parent."amount", 8)
+FROM "sales_forecast"."allocations" AS parent
+WHERE parent."session_id" = child."session_id"
+  AND parent."period" IS NOT DISTINCT FROM child."period"
+  AND parent."hierarchy_path" = regexp_replace(child."hierarchy_path", '/[^/]*$', '')
+  AND child."hierarchy_path" LIKE '%/%'
+  AND parent."amount" > 0;
+
+UPDATE "sales_forecast"."allocations" AS allocation
+SET "percentage" = ROUND(allocation."amount"::numeric * 100 / budget."budget", 8)
+FROM "sales_forecast"."period_budgets" AS budget, "sales_forecast"."sessions" AS session
+WHERE budget."session_id" = allocation."session_id"
+  AND budget."period" IS NOT DISTINCT FROM allocation."period"
+  AND session."id" = allocation."session_id"
+  AND session."planning_mode" = 'top_down'
+  AND allocation."hierarchy_path" NOT LIKE '%/%'
+  AND budget."budget" > 0;
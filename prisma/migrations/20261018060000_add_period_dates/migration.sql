@@ -0,0 +1,8 @@
+-- CreateEnum
+CREATE TYPE "sales_forecast"."PeriodGranularity" AS ENUM ('month', 'quarter', 'half', 'season');
+
+-- AlterTable
+ALTER TABLE "sales_forecast"."period_budgets" ADD COLUMN "start_date" DATE,
+ADD COLUMN "end_date" DATE,
+ADD COLUMN "granularity" "sales_forecast"."PeriodGranularity",
+ADD COLUMN "fiscal_year" INTEGER;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sales_forecast"."sessions" ADD COLUMN "seasonality" JSONB;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "sales_forecast"."PeriodStatus" AS ENUM ('open', 'closed');
+
+-- AlterTable
+ALTER TABLE "sales_forecast"."period_budgets" ADD COLUMN "status" "sales_forecast"."PeriodStatus" NOT NULL DEFAULT 'open';
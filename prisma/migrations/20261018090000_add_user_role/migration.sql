@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "sales_forecast"."UserRole" AS ENUM ('member', 'admin');
+
+-- AlterTable
+ALTER TABLE "sales_forecast"."users" ADD COLUMN "role" "sales_forecast"."UserRole" NOT NULL DEFAULT 'member';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "sales_forecast"."categories" ADD COLUMN "import_mapping" JSONB;
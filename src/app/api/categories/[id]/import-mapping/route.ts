@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { authorizeCategory } from '@/lib/authorization'
+import { prisma } from '@/lib/prisma'
+import { importColumnMappingSchema } from '@/lib/import-mapping'
+import { z } from 'zod'
+
+const importMappingSchema = z.object({
+  // null clears the saved mapping
+  importMapping: importColumnMappingSchema.nullable()
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeCategory(id, 'view')
+    if (!auth.ok) return auth.response
+
+    return NextResponse.json({ importMapping: auth.category.importMapping })
+  } catch (error) {
+    console.error('Error fetching import mapping:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Saves the CSV column mapping used by imports into this category's sessions.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeCategory(id, 'edit')
+    if (!auth.ok) return auth.response
+
+    const body = await request.json()
+    const { importMapping } = importMappingSchema.parse(body)
+
+    const category = await prisma.category.update({
+      where: { id },
+      data: { importMapping: importMapping ?? Prisma.DbNull }
+    })
+
+    return NextResponse.json({ importMapping: category.importMapping })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error saving import mapping:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
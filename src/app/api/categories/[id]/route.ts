@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorizeCategory } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import { buildCategoryDeletionPlan } from '@/lib/category-deletion'
+import { canForceDeleteCategory, getCategoryPermissions } from '@/lib/policy'
 import { z } from 'zod'
 
 const categorySchema = z.object({
@@ -13,29 +14,14 @@ export async function GET(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
+    const auth = await authorizeCategory(id, 'view')
+    if (!auth.ok) return auth.response
 
-    const category = await prisma.category.findUnique({
-      where: { id }
+    return NextResponse.json({
+      ...auth.category,
+      permissions: getCategoryPermissions(auth.user, auth.category)
     })
-
-    if (!category) {
-      return NextResponse.json(
-        { error: 'Category not found' },
-        { status: 404 }
-      )
-    }
-
-    return NextResponse.json(category)
   } catch (error) {
     console.error('Error fetching category:', error)
     return NextResponse.json(
@@ -50,31 +36,13 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
+    const auth = await authorizeCategory(id, 'edit')
+    if (!auth.ok) return auth.response
+
     const body = await request.json()
     const { name } = categorySchema.parse(body)
 
-    // Check if category exists
-    const existingCategory = await prisma.category.findUnique({
-      where: { id }
-    })
-
-    if (!existingCategory) {
-      return NextResponse.json(
-        { error: 'Category not found' },
-        { status: 404 }
-      )
-    }
-
     const category = await prisma.category.update({
       where: { id },
       data: { name }
@@ -97,39 +65,60 @@ export async function PUT(
   }
 }
 
+/**
+ * Deletes the category with all its sessions. `?dryRun=true` only returns the
+ * deletion plan; `?force=true` (admins only) also deletes confirmed sessions.
+ */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const auth = await authorizeCategory(id, 'delete')
+    if (!auth.ok) return auth.response
 
-    if (!session?.user?.id) {
+    const { searchParams } = new URL(request.url)
+    const dryRun = searchParams.get('dryRun') === 'true'
+    const force = searchParams.get('force') === 'true'
+
+    if (force && !canForceDeleteCategory(auth.user, auth.category)) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: '管理者のみが強制削除できます' },
+        { status: 403 }
       )
     }
 
-    const { id } = await params
+    const plan = await buildCategoryDeletionPlan(auth.category)
+    const blocked = plan.confirmedSessions.length > 0 && !force
 
-    // Check if category exists
-    const existingCategory = await prisma.category.findUnique({
-      where: { id }
-    })
+    if (dryRun) {
+      return NextResponse.json({ dryRun: true, deletable: !blocked, plan })
+    }
 
-    if (!existingCategory) {
+    if (blocked) {
       return NextResponse.json(
-        { error: 'Category not found' },
-        { status: 404 }
+        { error: 'Category contains confirmed sessions', plan },
+        { status: 409 }
       )
     }
 
-    await prisma.category.delete({
-      where: { id }
+    // Re-check in the delete itself in case a session was confirmed after the plan was built
+    const { count } = await prisma.category.deleteMany({
+      where: {
+        id,
+        ...(force ? {} : { sessions: { none: { status: 'confirmed' } } })
+      }
     })
 
-    return NextResponse.json({ success: true })
+    if (count === 0) {
+      return NextResponse.json(
+        { error: 'Category contains confirmed sessions' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true, plan })
   } catch (error) {
     console.error('Error deleting category:', error)
     return NextResponse.json(
@@ -1,43 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorizeCategory } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import { viewableSessionsWhere } from '@/lib/policy'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
+    const auth = await authorizeCategory(id, 'view')
+    if (!auth.ok) return auth.response
 
-    // Verify category belongs to user
-    const category = await prisma.category.findFirst({
-      where: {
-        id,
-        userId: session.user.id
-      }
-    })
-
-    if (!category) {
-      return NextResponse.json(
-        { error: 'Category not found' },
-        { status: 404 }
-      )
-    }
-
-    // Get all sessions for this category
+    // Get the sessions of this category the user may see
     const sessions = await prisma.session.findMany({
       where: {
-        categoryId: id
+        categoryId: id,
+        ...viewableSessionsWhere(auth.user.id)
       },
       orderBy: {
         createdAt: 'desc'
@@ -1,7 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
+import { authorizeUser } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import { getCategoryPermissions } from '@/lib/policy'
 import { z } from 'zod'
 
 const categorySchema = z.object({
@@ -10,20 +12,19 @@ const categorySchema = z.object({
 
 export async function GET(request: NextRequest) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const auth = await authorizeUser()
+    if (!auth.ok) return auth.response
 
     const categories = await prisma.category.findMany({
       orderBy: { createdAt: 'desc' }
     })
 
-    return NextResponse.json(categories)
+    return NextResponse.json(
+      categories.map(c => ({
+        ...c,
+        permissions: getCategoryPermissions(auth.user, c)
+      }))
+    )
   } catch (error) {
     console.error('Error fetching categories:', error)
     return NextResponse.json(
@@ -1,12 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorizeSession } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import { getPathLevel } from '@/lib/allocation'
+import { loadAllocationContext, toAllocationRecord, toAllocationValues } from '@/lib/allocation-data'
+import { applyAutoAllocation, autoAllocateTree } from '@/lib/auto-allocation'
+import { canEditPeriod, viewableSessionsWhere } from '@/lib/policy'
 import { z } from 'zod'
 
 const autoAllocateSchema = z.object({
-  level: z.number().int().positive(),
-  period: z.string().nullable().optional()
+  // level: one level at a time, tree: every level from L1 down to SKU
+  mode: z.enum(['level', 'tree']).default('level'),
+  level: z.number().int().positive().optional(),
+  onlyUnallocated: z.boolean().default(false),
+  period: z.string().nullable().optional(),
+  strategy: z.enum(['equal', 'sku_count', 'unit_price', 'weights', 'historical']).default('equal'),
+  // weights: hierarchyPath -> weight
+  weights: z.record(z.number().nonnegative()).optional(),
+  // historical: allocated amounts of a past session are used as weights
+  sourceSessionId: z.string().uuid().optional(),
+  sourcePeriod: z.string().nullable().optional()
+}).refine(data => data.mode === 'tree' || data.level !== undefined, {
+  message: 'level is required in level mode',
+  path: ['level']
 })
 
 export async function POST(
@@ -14,42 +29,30 @@ export async function POST(
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
+    const auth = await authorizeSession(id, 'edit')
+    if (!auth.ok) return auth.response
+    const { budgetSession } = auth
 
-    // Verify session belongs to user
-    const budgetSession = await prisma.session.findFirst({
-      where: {
-        id,
-        category: {
-          userId: session.user.id
-        }
-      },
-      include: {
-        hierarchyDefinitions: {
-          orderBy: { level: 'asc' }
-        },
-        periodBudgets: true
-      }
-    })
-
-    if (!budgetSession) {
+    // Bottom-up sessions derive amounts from SKU quantities, not from the budget
+    if (budgetSession.planningMode === 'bottom_up') {
       return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
+        { error: 'Auto-allocation is not available in bottom-up planning mode' },
+        { status: 400 }
       )
     }
 
     const body = await request.json()
-    const { level, period = null } = autoAllocateSchema.parse(body)
+    const {
+      mode,
+      level,
+      onlyUnallocated,
+      period = null,
+      strategy,
+      weights,
+      sourceSessionId,
+      sourcePeriod
+    } = autoAllocateSchema.parse(body)
 
     // Get period budget
     const periodBudget = budgetSession.periodBudgets.find(pb => pb.period === period)
@@ -61,82 +64,106 @@ export async function POST(
       )
     }
 
-    // Get all SKU data
-    const skuData = await prisma.skuData.findMany({
-      where: { sessionId: id }
-    })
+    if (!canEditPeriod(auth.userId, budgetSession, periodBudget)) {
+      return NextResponse.json(
+        { error: 'Period is closed' },
+        { status: 403 }
+      )
+    }
 
-    if (skuData.length === 0) {
+    const ctx = await loadAllocationContext(id)
+
+    if (ctx.skuData.length === 0) {
       return NextResponse.json(
         { error: 'No SKU data found' },
         { status: 400 }
       )
     }
 
-    // Get hierarchy definition for the level
-    const hierarchyDef = budgetSession.hierarchyDefinitions.find(
-      h => h.level === level
-    )
-
-    if (!hierarchyDef) {
+    // Levels 1..n are hierarchy columns, level n+1 is the SKU level
+    if (level !== undefined && level > ctx.hierarchyDefinitions.length + 1) {
       return NextResponse.json(
         { error: 'Invalid level' },
         { status: 400 }
       )
     }
 
-    // Build hierarchy paths up to the requested level
-    const hierarchyPaths = new Set<string>()
-
-    for (const sku of skuData) {
-      const values = sku.hierarchyValues as Record<string, string>
-      const pathParts: string[] = []
+    let weightTable: Map<string, number> | undefined
 
-      for (let i = 0; i < level; i++) {
-        const def = budgetSession.hierarchyDefinitions[i]
-        if (def && values[def.columnName]) {
-          pathParts.push(values[def.columnName])
-        }
+    if (strategy === 'weights') {
+      if (!weights) {
+        return NextResponse.json(
+          { error: 'Weights are required for the weights strategy' },
+          { status: 400 }
+        )
       }
+      weightTable = new Map(Object.entries(weights))
+    }
 
-      if (pathParts.length === level) {
-        hierarchyPaths.add(pathParts.join('/'))
+    if (strategy === 'historical') {
+      if (!sourceSessionId) {
+        return NextResponse.json(
+          { error: 'sourceSessionId is required for the historical strategy' },
+          { status: 400 }
+        )
       }
-    }
 
-    const paths = Array.from(hierarchyPaths)
-    const percentage = paths.length > 0 ? 100 / paths.length : 0
-    const budget = Number(periodBudget.budget)
-    const amount = Math.floor(budget * (percentage / 100))
+      // Source must be visible to the user
+      const sourceSession = await prisma.session.findFirst({
+        where: {
+          id: sourceSessionId,
+          ...viewableSessionsWhere(auth.userId)
+        }
+      })
 
-    // Create allocations
-    const allocations = paths.map(path => ({
-      sessionId: id,
-      hierarchyPath: path,
-      level,
-      percentage,
-      amount: BigInt(amount),
-      quantity: 0, // Will be calculated on frontend based on SKU details
-      period
-    }))
-
-    // Delete existing allocations for this level and period
-    await prisma.allocation.deleteMany({
-      where: {
-        sessionId: id,
-        level,
-        period
+      if (!sourceSession) {
+        return NextResponse.json(
+          { error: 'Source session not found' },
+          { status: 404 }
+        )
       }
-    })
 
-    await prisma.allocation.createMany({
-      data: allocations
+      const sourceAllocations = await prisma.allocation.findMany({
+        where: {
+          sessionId: sourceSessionId,
+          level: mode === 'tree' ? undefined : level,
+          period: sourcePeriod === undefined ? period : sourcePeriod
+        }
+      })
+
+      weightTable = new Map(sourceAllocations.map(a => [a.hierarchyPath, Number(a.amount)]))
+    }
+
+    const existingAllocations = await prisma.allocation.findMany({
+      where: { sessionId: id, period }
     })
 
+    const allocations = mode === 'tree'
+      ? autoAllocateTree(ctx, existingAllocations.map(toAllocationValues), period, strategy, weightTable, onlyUnallocated)
+      : applyAutoAllocation(ctx, existingAllocations.map(toAllocationValues), level!, period, strategy, weightTable)
+    const allocated = mode === 'tree'
+      ? allocations
+      : allocations.filter(a => getPathLevel(a.hierarchyPath) === level)
+
+    // Replace this period's allocations in one transaction so a failure leaves the previous plan intact
+    await prisma.$transaction([
+      prisma.allocation.deleteMany({
+        where: {
+          sessionId: id,
+          period
+        }
+      }),
+      prisma.allocation.createMany({
+        data: allocations.map(a => toAllocationRecord(id, a))
+      })
+    ])
+
     return NextResponse.json({
       success: true,
-      allocated: allocations.length,
-      percentage
+      mode,
+      strategy,
+      allocated: allocated.length,
+      percentage: allocated.length > 0 ? allocated[0].percentage : 0
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1,7 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorizeSession } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import {
+  findAllocationMismatches,
+  findLockedAmountChanges,
+  recalculateAllocations,
+  recalculateChangedGroups
+} from '@/lib/allocation'
+import { findLockedOverflows } from '@/lib/allocation-validation'
+import { loadAllocationContext, toAllocationRecord, toAllocationValues } from '@/lib/allocation-data'
+import { findChangedPeriods } from '@/lib/periods'
+import { canEditPeriod } from '@/lib/policy'
 import { z } from 'zod'
 
 const allocationSchema = z.object({
@@ -10,11 +19,14 @@ const allocationSchema = z.object({
   percentage: z.number().min(0).max(100),
   amount: z.number().int().nonnegative(),
   quantity: z.number().int().nonnegative(),
-  period: z.string().nullable().optional()
+  period: z.string().nullable().optional(),
+  skuQuantities: z.record(z.number().int().nonnegative()).nullable().optional(),
+  locked: z.boolean().optional()
 })
 
 const allocationsUpdateSchema = z.object({
-  allocations: z.array(allocationSchema)
+  allocations: z.array(allocationSchema),
+  cascade: z.boolean().optional()
 })
 
 export async function GET(
@@ -23,37 +35,8 @@ export async function GET(
 ) {
   try {
     const { id } = await params
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Check if session exists
-    const budgetSession = await prisma.session.findUnique({
-      where: { id },
-      include: {
-        category: true
-      }
-    })
-
-    if (!budgetSession) {
-      return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
-      )
-    }
-
-    // Draft sessions: only creator can view
-    if (budgetSession.status === 'draft' && budgetSession.category.userId !== session.user.id) {
-      return NextResponse.json(
-        { error: 'このセッションは作成者が作業中です' },
-        { status: 403 }
-      )
-    }
+    const auth = await authorizeSession(id, 'view')
+    if (!auth.ok) return auth.response
 
     const allocations = await prisma.allocation.findMany({
       where: { sessionId: id },
@@ -83,61 +66,79 @@ export async function PUT(
 ) {
   try {
     const { id } = await params
-    const session = await getServerSession(authOptions)
+    const auth = await authorizeSession(id, 'edit')
+    if (!auth.ok) return auth.response
+    const { budgetSession } = auth
 
-    if (!session?.user?.id) {
+    const body = await request.json()
+    const { allocations, cascade = false } = allocationsUpdateSchema.parse(body)
+
+    // Recalculate amounts and quantities server-side instead of trusting the client.
+    // Without cascade only the edited sibling groups are checked, against their
+    // parents as submitted, so descendants of an edited node may stay stale
+    const submitted = allocations.map(a => ({ ...a, period: a.period || null }))
+    const ctx = await loadAllocationContext(id)
+    const stored = await prisma.allocation.findMany({ where: { sessionId: id } })
+    const previous = stored.map(toAllocationValues)
+
+    // Locked amounts are kept as submitted, so they are checked on their own
+    const lockedChanges = findLockedAmountChanges(submitted, previous)
+    if (lockedChanges.length > 0) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'Locked amounts cannot change', details: lockedChanges },
+        { status: 400 }
       )
     }
 
-    // Check if session exists
-    const budgetSession = await prisma.session.findUnique({
-      where: { id },
-      include: {
-        category: true
-      }
-    })
+    const recalculated = cascade
+      ? recalculateAllocations(ctx, submitted)
+      : recalculateChangedGroups(ctx, submitted, previous)
+    const lockedOverflows = findLockedOverflows(ctx, recalculated)
+    if (lockedOverflows.length > 0) {
+      return NextResponse.json(
+        { error: 'Locked allocations exceed their parent', details: lockedOverflows },
+        { status: 400 }
+      )
+    }
+    const mismatches = findAllocationMismatches(ctx, submitted, recalculated)
 
-    if (!budgetSession) {
+    // In cascade mode percentages are authoritative and stale descendant amounts are overwritten
+    if (!cascade && mismatches.length > 0) {
       return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
+        { error: 'Inconsistent allocations', details: mismatches },
+        { status: 400 }
       )
     }
 
-    // Only creator can edit allocations
-    if (budgetSession.category.userId !== session.user.id) {
+    // Closed periods must come back exactly as stored; their rows are left untouched
+    const closedPeriods = budgetSession.periodBudgets
+      .filter(pb => !canEditPeriod(auth.userId, budgetSession, pb))
+      .map(pb => pb.period)
+    const closedRows = stored.filter(a => closedPeriods.includes(a.period))
+    const editedPeriods = findChangedPeriods(closedPeriods, closedRows.map(toAllocationValues), submitted)
+
+    if (editedPeriods.length > 0) {
       return NextResponse.json(
-        { error: '作成者のみが配分を編集できます' },
+        { error: 'Period is closed', periods: editedPeriods },
         { status: 403 }
       )
     }
 
-    const body = await request.json()
-    const { allocations } = allocationsUpdateSchema.parse(body)
+    const allocationRecords = recalculated
+      .filter(a => !closedPeriods.includes(a.period))
+      .map(a => toAllocationRecord(id, a))
 
     // Delete existing allocations and create new ones
-    await prisma.allocation.deleteMany({
-      where: { sessionId: id }
+    await prisma.$transaction([
+      prisma.allocation.deleteMany({ where: { sessionId: id, id: { notIn: closedRows.map(a => a.id) } } }),
+      prisma.allocation.createMany({ data: allocationRecords })
+    ])
+
+    return NextResponse.json({
+      success: true,
+      updated: allocations.length,
+      cascaded: cascade ? new Set(mismatches.map(m => `${m.period}/${m.hierarchyPath}`)).size : 0
     })
-
-    const allocationRecords = allocations.map(a => ({
-      sessionId: id,
-      hierarchyPath: a.hierarchyPath,
-      level: a.level,
-      percentage: a.percentage,
-      amount: BigInt(a.amount),
-      quantity: a.quantity,
-      period: a.period || null
-    }))
-
-    await prisma.allocation.createMany({
-      data: allocationRecords
-    })
-
-    return NextResponse.json({ success: true, updated: allocations.length })
   } catch (error) {
     if (error instanceof z.ZodError) {
       return NextResponse.json(
@@ -1,70 +1,46 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorizeSession } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import {
+  calculatePercentage,
+  calculateSkuAmounts,
+  calculateSkuQuantity,
+  getPeriodBudget,
+  indexAllocations,
+  roundPercentage
+} from '@/lib/allocation'
+import { loadAllocationContext, toAllocationValues } from '@/lib/allocation-data'
+import { sortPeriods } from '@/lib/periods'
 
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
     const { id } = await params
-
-    // Verify session belongs to user
-    const budgetSession = await prisma.session.findFirst({
-      where: {
-        id,
-        category: {
-          userId: session.user.id
-        }
-      },
-      include: {
-        hierarchyDefinitions: {
-          orderBy: { level: 'asc' }
-        }
-      }
-    })
-
-    if (!budgetSession) {
-      return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
-      )
-    }
-
-    const skuData = await prisma.skuData.findMany({
-      where: { sessionId: id }
-    })
-
-    const allocations = await prisma.allocation.findMany({
-      where: { sessionId: id }
-    })
-
-    // Create allocation lookup map
-    const allocationMap = new Map<string, any>()
-    for (const allocation of allocations) {
-      allocationMap.set(allocation.hierarchyPath, {
-        percentage: parseFloat(allocation.percentage.toString()),
-        amount: allocation.amount.toString(),
-        quantity: allocation.quantity
+    const auth = await authorizeSession(id, 'view')
+    if (!auth.ok) return auth.response
+
+    const [ctx, allocations, periodBudgets] = await Promise.all([
+      loadAllocationContext(id),
+      prisma.allocation.findMany({
+        where: { sessionId: id }
+      }),
+      prisma.periodBudget.findMany({
+        where: { sessionId: id }
       })
-    }
+    ])
+
+    const allocationValues = allocations.map(toAllocationValues)
+    const index = indexAllocations(allocationValues)
 
     // Build CSV rows
-    const hierarchyColumns = budgetSession.hierarchyDefinitions.map(
+    const hierarchyColumns = ctx.hierarchyDefinitions.map(
       h => h.columnName
     )
 
     const headers = [
+      'period',
       ...hierarchyColumns,
       'sku_code',
       'unitprice',
@@ -75,29 +51,26 @@ export async function GET(
 
     const rows: string[][] = [headers]
 
-    for (const sku of skuData) {
-      const values = sku.hierarchyValues as Record<string, string>
-
-      // Build hierarchy path
-      const pathParts = hierarchyColumns.map(col => values[col] || '')
-      const hierarchyPath = pathParts.filter(Boolean).join('/')
-
-      const allocation = allocationMap.get(hierarchyPath) || {
-        percentage: 0,
-        amount: '0',
-        quantity: 0
+    // One row per SKU and period; amounts add up to the period budget
+    for (const { period } of sortPeriods(periodBudgets)) {
+      const budget = getPeriodBudget(ctx, period)
+      const skuAmounts = calculateSkuAmounts(ctx, allocationValues, period)
+
+      for (const sku of ctx.skuData) {
+        const amount = skuAmounts[sku.skuCode] ?? 0
+
+        const row = [
+          period ?? '',
+          ...hierarchyColumns.map(col => sku.hierarchyValues[col] || ''),
+          sku.skuCode,
+          sku.unitPrice.toString(),
+          roundPercentage(calculatePercentage(budget, amount), 4).toString(),
+          amount.toString(),
+          calculateSkuQuantity(ctx, index, sku, period).toString()
+        ]
+
+        rows.push(row)
       }
-
-      const row = [
-        ...pathParts,
-        sku.skuCode,
-        sku.unitPrice.toString(),
-        allocation.percentage.toString(),
-        allocation.amount,
-        allocation.quantity.toString()
-      ]
-
-      rows.push(row)
     }
 
     // Convert to CSV string
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeSession } from '@/lib/authorization'
+import { prisma } from '@/lib/prisma'
+import { findAllocation, indexAllocations } from '@/lib/allocation'
+import { loadAllocationContext, toAllocationRecord, toAllocationValues } from '@/lib/allocation-data'
+import { goalSeekBudget, goalSeekPercentage } from '@/lib/goal-seek'
+import { canEditPeriod, canEditSession } from '@/lib/policy'
+import { z } from 'zod'
+
+const goalSeekSchema = z.object({
+  period: z.string().nullable().optional(),
+  targetQuantity: z.number().int().positive(),
+  // null: every SKU in the period
+  hierarchyPath: z.string().nullable().optional(),
+  // budget: solve for the period budget, percentage: solve for the node's percentage
+  solveFor: z.enum(['budget', 'percentage']).default('budget'),
+  rebalance: z.boolean().default(true),
+  // false returns the preview only
+  apply: z.boolean().default(false)
+}).refine(data => data.solveFor === 'budget' || data.hierarchyPath, {
+  message: 'hierarchyPath is required when solving for a percentage',
+  path: ['hierarchyPath']
+})
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeSession(id, 'view')
+    if (!auth.ok) return auth.response
+    const { budgetSession } = auth
+
+    const body = await request.json()
+    const {
+      period = null,
+      targetQuantity,
+      hierarchyPath = null,
+      solveFor,
+      rebalance,
+      apply
+    } = goalSeekSchema.parse(body)
+
+    // Only creator can apply the result
+    if (apply && !canEditSession(auth.userId, budgetSession)) {
+      return NextResponse.json(
+        { error: '作成者のみが配分を編集できます' },
+        { status: 403 }
+      )
+    }
+
+    // Bottom-up sessions derive the budget from SKU quantities already
+    if (budgetSession.planningMode === 'bottom_up') {
+      return NextResponse.json(
+        { error: 'Goal seek is not available in bottom-up planning mode' },
+        { status: 400 }
+      )
+    }
+
+    const periodBudget = budgetSession.periodBudgets.find(pb => pb.period === period)
+
+    if (!periodBudget) {
+      return NextResponse.json(
+        { error: 'Period budget not found' },
+        { status: 404 }
+      )
+    }
+
+    // Closed periods can still be previewed, just not changed
+    if (apply && !canEditPeriod(auth.userId, budgetSession, periodBudget)) {
+      return NextResponse.json(
+        { error: 'Period is closed' },
+        { status: 403 }
+      )
+    }
+
+    const ctx = await loadAllocationContext(id)
+    const existingAllocations = await prisma.allocation.findMany({
+      where: { sessionId: id, period }
+    })
+    const allocations = existingAllocations.map(toAllocationValues)
+
+    if (hierarchyPath !== null) {
+      const node = findAllocation(indexAllocations(allocations), hierarchyPath, period)
+
+      if (!node) {
+        return NextResponse.json(
+          { error: 'Allocation not found for hierarchy path' },
+          { status: 404 }
+        )
+      }
+
+      if (solveFor === 'percentage' && node.locked) {
+        return NextResponse.json(
+          { error: 'Allocation is locked' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const { result, allocations: solved } = solveFor === 'budget'
+      ? goalSeekBudget(ctx, allocations, period, targetQuantity, hierarchyPath)
+      : goalSeekPercentage(ctx, allocations, period, targetQuantity, hierarchyPath!, rebalance)
+
+    if (!apply) {
+      return NextResponse.json({ ...result, applied: false })
+    }
+
+    if (!result.reachable) {
+      return NextResponse.json(
+        { error: 'Target quantity is not reachable', result },
+        { status: 400 }
+      )
+    }
+
+    // Budget and allocations change together so the period never holds stale amounts
+    await prisma.$transaction([
+      prisma.periodBudget.updateMany({
+        where: { sessionId: id, period },
+        data: { budget: BigInt(result.requiredBudget) }
+      }),
+      prisma.allocation.deleteMany({
+        where: { sessionId: id, period }
+      }),
+      prisma.allocation.createMany({
+        data: solved.map(a => toAllocationRecord(id, a))
+      })
+    ])
+
+    return NextResponse.json({ ...result, applied: true })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error running goal seek:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
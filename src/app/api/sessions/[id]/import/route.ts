@@ -1,97 +1,132 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorizeSession } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import { createAllocationContext } from '@/lib/allocation'
+import { loadAllocationContext, toAllocationRecord, toAllocationValues } from '@/lib/allocation-data'
+import { importColumnMappingSchema, suggestColumnMapping } from '@/lib/import-mapping'
+import { canEditPeriod } from '@/lib/policy'
+import { diffSkuData, reconcileAllocations } from '@/lib/sku-diff'
+import {
+  IMPORT_TIMEOUT_MS,
+  collectSkuRows,
+  importSkuCsv,
+  previewCsvRows,
+  readCsvRows,
+  replaceSkuRows
+} from '@/lib/sku-import'
+import type { AuthorizedSession } from '@/lib/authorization'
+import type { ColumnMappingChoice } from '@/lib/import-mapping'
+import type { CsvReadOptions } from '@/lib/sku-import'
+import type { CsvRow } from '@/lib/import-validation'
+import type { CsvEncoding, ImportColumnMapping, ImportPreview, ImportValidationMode } from '@/types'
 import { z } from 'zod'
 
-const skuDataSchema = z.object({
-  skuCode: z.string(),
-  unitPrice: z.number().int().nonnegative(),
-  hierarchyValues: z.record(z.string())
-})
-
-const importSchema = z.object({
-  skuData: z.array(skuDataSchema),
-  hierarchyColumns: z.array(z.string())
-})
-
+const PREVIEW_ROWS = 5
+
+const encodingSchema = z.enum(['auto', 'utf-8', 'utf-8-bom', 'shift_jis']).default('auto')
+
+/**
+ * Replaces the session's SKU data with a CSV file, sent either as the raw
+ * request body (text/csv), which is parsed as it streams in, or as the `file`
+ * field of a multipart form, which is read into memory first.
+ * `?mode=reimport` updates existing data instead and keeps the allocations of
+ * unchanged nodes; add `dryRun=true` to only get the diff.
+ * `?validation=strict` rejects the file on any row error; the default
+ * (lenient) imports the valid rows. Either way the response has a per-row report.
+ * Columns are read through the `mapping` form field or query parameter (JSON),
+ * else the category's saved mapping, else the default column names.
+ * `?encoding=` picks utf-8, utf-8-bom or shift_jis instead of detecting it,
+ * and `?normalize=true` applies NFKC to the header and every value.
+ * `?mode=preview` returns the header, the first rows, the encoding and a suggested mapping.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   try {
-    const session = await getServerSession(authOptions)
+    const { id } = await params
+    const auth = await authorizeSession(id, 'edit')
+    if (!auth.ok) return auth.response
+
+    const { searchParams } = new URL(request.url)
+    let body = request.body
+    let mappingField: FormDataEntryValue | null = searchParams.get('mapping')
+    if (request.headers.get('content-type')?.startsWith('multipart/form-data')) {
+      const formData = await request.formData()
+      const file = formData.get('file')
+      body = file instanceof File ? file.stream() : null
+      mappingField = formData.get('mapping') ?? mappingField
+    }
 
-    if (!session?.user?.id) {
+    if (!body) {
       return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
+        { error: 'CSV file is required' },
+        { status: 400 }
       )
     }
 
-    const { id } = await params
-
-    // Check if session exists
-    const budgetSession = await prisma.session.findUnique({
-      where: { id },
-      include: {
-        category: true
+    const validation: ImportValidationMode = searchParams.get('validation') === 'strict' ? 'strict' : 'lenient'
+    const csvOptions: CsvReadOptions = {
+      encoding: encodingSchema.parse(searchParams.get('encoding') ?? undefined),
+      normalize: searchParams.get('normalize') === 'true'
+    }
+    const savedMapping = auth.budgetSession.category.importMapping as ImportColumnMapping | null
+    let mappingJson: unknown = null
+    if (typeof mappingField === 'string') {
+      try {
+        mappingJson = JSON.parse(mappingField)
+      } catch {
+        return NextResponse.json(
+          { error: 'mapping must be valid JSON' },
+          { status: 400 }
+        )
       }
-    })
+    }
+    // The saved mapping only applies to files that have its columns, as in the preview
+    const columnMapping: ColumnMappingChoice = {
+      mapping: mappingJson === null ? null : importColumnMappingSchema.parse(mappingJson),
+      saved: savedMapping
+    }
 
-    if (!budgetSession) {
-      return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
+    if (searchParams.get('mode') === 'preview') {
+      let encoding: CsvEncoding = 'utf-8'
+      const { columns, rows } = await previewCsvRows(
+        readCsvRows(body, { ...csvOptions, onEncoding: detected => { encoding = detected } }),
+        PREVIEW_ROWS
       )
+      const preview: ImportPreview = {
+        columns,
+        rows,
+        mapping: suggestColumnMapping(columns, savedMapping),
+        encoding
+      }
+      return NextResponse.json(preview)
     }
 
-    // Only creator can upload CSV
-    if (budgetSession.category.userId !== session.user.id) {
+    // Replacing the SKU data drops every allocation, including those of closed periods
+    if (auth.budgetSession.periodBudgets.some(pb => !canEditPeriod(auth.userId, auth.budgetSession, pb))) {
       return NextResponse.json(
-        { error: '作成者のみがCSVをアップロードできます' },
-        { status: 403 }
+        { error: 'SKU data cannot be replaced while a period is closed' },
+        { status: 409 }
       )
     }
 
-    const body = await request.json()
-    const { skuData, hierarchyColumns } = importSchema.parse(body)
-
-    // Delete existing data
-    await prisma.$transaction([
-      prisma.allocation.deleteMany({ where: { sessionId: id } }),
-      prisma.skuData.deleteMany({ where: { sessionId: id } }),
-      prisma.hierarchyDefinition.deleteMany({ where: { sessionId: id } })
-    ])
-
-    // Create hierarchy definitions
-    const hierarchyDefinitions = hierarchyColumns.map((col, index) => ({
-      sessionId: id,
-      level: index + 1,
-      columnName: col,
-      displayOrder: index + 1
-    }))
-
-    await prisma.hierarchyDefinition.createMany({
-      data: hierarchyDefinitions
-    })
+    if (searchParams.get('mode') === 'reimport') {
+      return reimportSkuData(id, auth.budgetSession, readCsvRows(body, csvOptions), validation, columnMapping, searchParams.get('dryRun') === 'true')
+    }
 
-    // Create SKU data
-    const skuRecords = skuData.map(sku => ({
-      sessionId: id,
-      skuCode: sku.skuCode,
-      unitPrice: sku.unitPrice,
-      hierarchyValues: sku.hierarchyValues
-    }))
+    const outcome = await importSkuCsv(id, readCsvRows(body, csvOptions), validation, columnMapping)
 
-    await prisma.skuData.createMany({
-      data: skuRecords
-    })
+    if (!outcome.ok) {
+      return NextResponse.json(
+        { error: outcome.error, report: outcome.report },
+        { status: 400 }
+      )
+    }
 
     return NextResponse.json({
       success: true,
-      imported: skuData.length,
-      hierarchyLevels: hierarchyColumns.length
+      ...outcome.result
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -108,3 +143,68 @@ export async function POST(
     )
   }
 }
+
+async function reimportSkuData(
+  id: string,
+  budgetSession: AuthorizedSession,
+  rows: AsyncIterable<CsvRow>,
+  validation: ImportValidationMode,
+  columnMapping: ColumnMappingChoice,
+  dryRun: boolean
+) {
+  const collected = await collectSkuRows(rows, validation, columnMapping)
+
+  if (!collected.ok) {
+    return NextResponse.json(
+      { error: collected.error, report: collected.report },
+      { status: 400 }
+    )
+  }
+
+  const current = await loadAllocationContext(id)
+  const currentColumns = current.hierarchyDefinitions.map(d => d.columnName)
+
+  if (current.skuData.length === 0) {
+    return NextResponse.json(
+      { error: 'No SKU data to re-import; import the file instead' },
+      { status: 400 }
+    )
+  }
+
+  if (currentColumns.join('\n') !== collected.hierarchyColumns.join('\n')) {
+    return NextResponse.json(
+      { error: `Hierarchy columns must match the current data: ${currentColumns.join(', ')}` },
+      { status: 400 }
+    )
+  }
+
+  const next = createAllocationContext(current.hierarchyDefinitions, collected.skus, current.periodBudgets, budgetSession)
+  const diff = diffSkuData(current, next)
+
+  if (dryRun) {
+    return NextResponse.json({ dryRun: true, skipped: collected.report.rejectedRows, report: collected.report, diff })
+  }
+
+  const allocations = await prisma.allocation.findMany({ where: { sessionId: id } })
+  const reconciled = reconcileAllocations(next, allocations.map(toAllocationValues), diff)
+
+  const batches = await prisma.$transaction(async (tx) => {
+    const skuBatches = await replaceSkuRows(tx, id, collected.skus)
+    await tx.allocation.deleteMany({ where: { sessionId: id } })
+    await tx.allocation.createMany({
+      data: reconciled.map(a => toAllocationRecord(id, a))
+    })
+    return skuBatches
+  }, { timeout: IMPORT_TIMEOUT_MS })
+
+  return NextResponse.json({
+    success: true,
+    imported: collected.skus.length,
+    skipped: collected.report.rejectedRows,
+    hierarchyColumns: collected.hierarchyColumns,
+    hierarchyLevels: collected.hierarchyColumns.length,
+    batches,
+    report: collected.report,
+    diff
+  })
+}
@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSession } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
+import { rebaseTopLevelPercentages, recalculateAllocations, summarizeAllocationChanges } from '@/lib/allocation';
+import { loadAllocationContext, toAllocationRecord, toAllocationValues } from '@/lib/allocation-data';
+import { findOverlappingPeriod, periodDetailsSchema, validatePeriodRange } from '@/lib/periods';
+import { canDeletePeriod, canEditPeriod } from '@/lib/policy';
+import { z } from 'zod';
+
+const periodStatusSchema = z.object({
+  status: z.enum(['open', 'closed']),
+});
 
 /**
  * PUT /api/sessions/[id]/periods/[period]
- * Rename a period (updates both period budget and allocations)
+ * Rename a period (updates both period budget and allocations).
+ * A budget change rescales the period's amounts from the stored percentages,
+ * or with keepAmounts re-derives the top-level percentages instead.
  */
 export async function PUT(
   request: NextRequest,
@@ -11,8 +23,12 @@ export async function PUT(
 ) {
   try {
     const { id: sessionId, period: oldPeriod } = await params;
+    const auth = await authorizeSession(sessionId, 'edit');
+    if (!auth.ok) return auth.response;
+
     const body = await request.json();
-    const { newPeriod, budget } = body;
+    const { newPeriod, budget, keepAmounts = false } = body;
+    const details = periodDetailsSchema.parse(body);
 
     // Decode URL-encoded period
     const decodedOldPeriod = decodeURIComponent(oldPeriod);
@@ -34,15 +50,10 @@ export async function PUT(
       );
     }
 
-    // Verify session exists
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-    });
-
-    if (!session) {
+    if (typeof keepAmounts !== 'boolean') {
       return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
+        { error: 'keepAmounts must be a boolean' },
+        { status: 400 }
       );
     }
 
@@ -63,6 +74,13 @@ export async function PUT(
       );
     }
 
+    if (!canEditPeriod(auth.userId, auth.budgetSession, oldPeriodBudget)) {
+      return NextResponse.json(
+        { error: 'Period is closed' },
+        { status: 403 }
+      );
+    }
+
     // Check if period name is actually changing
     const isPeriodNameChanging = actualOldPeriod !== newPeriod.trim();
 
@@ -85,8 +103,67 @@ export async function PUT(
       }
     }
 
+    // Omitted fields keep their stored values
+    const periodDetails = {
+      startDate: details.startDate === undefined
+        ? oldPeriodBudget.startDate
+        : details.startDate && new Date(details.startDate),
+      endDate: details.endDate === undefined
+        ? oldPeriodBudget.endDate
+        : details.endDate && new Date(details.endDate),
+      granularity: details.granularity === undefined ? oldPeriodBudget.granularity : details.granularity,
+      fiscalYear: details.fiscalYear === undefined ? oldPeriodBudget.fiscalYear : details.fiscalYear,
+    };
+
+    const range = { period: newPeriod.trim(), ...periodDetails };
+    const rangeError = validatePeriodRange(range);
+    if (rangeError) {
+      return NextResponse.json(
+        { error: rangeError },
+        { status: 400 }
+      );
+    }
+
+    const otherPeriods = await prisma.periodBudget.findMany({
+      where: { sessionId, NOT: { id: oldPeriodBudget.id } },
+    });
+    const overlapping = findOverlappingPeriod(range, otherPeriods);
+
+    if (overlapping) {
+      return NextResponse.json(
+        { error: `Period dates overlap with ${overlapping.period}` },
+        { status: 409 }
+      );
+    }
+
+    const newBudget = budget !== undefined ? BigInt(budget) : oldPeriodBudget.budget;
+
+    // Recompute this period's amounts from the stored percentages against the new budget
+    const ctx = await loadAllocationContext(sessionId);
+    const periodCtx = {
+      ...ctx,
+      periodBudgets: [{ period: actualOldPeriod, budget: Number(newBudget) }],
+    };
+    const periodAllocations = await prisma.allocation.findMany({
+      where: { sessionId, period: actualOldPeriod },
+    });
+    const currentValues = periodAllocations.map(toAllocationValues);
+
+    // Bottom-up amounts come from SKU quantities, so only top-down sessions can keep them against a new budget
+    const recalculated = keepAmounts && ctx.planningMode === 'top_down'
+      ? rebaseTopLevelPercentages(periodCtx, currentValues, actualOldPeriod)
+      : recalculateAllocations(periodCtx, currentValues);
+    const rescale = summarizeAllocationChanges(currentValues, recalculated);
+
     // Use transaction to update period budget and allocations
     const result = await prisma.$transaction(async (tx) => {
+      await tx.allocation.deleteMany({
+        where: { sessionId, period: actualOldPeriod },
+      });
+      await tx.allocation.createMany({
+        data: recalculated.map(a => toAllocationRecord(sessionId, a)),
+      });
+
       if (isPeriodNameChanging) {
         // Period name is changing: delete old and create new
         await tx.periodBudget.delete({
@@ -102,7 +179,8 @@ export async function PUT(
           data: {
             sessionId,
             period: newPeriod.trim(),
-            budget: budget !== undefined ? BigInt(budget) : oldPeriodBudget.budget,
+            budget: newBudget,
+            ...periodDetails,
           },
         });
 
@@ -128,7 +206,8 @@ export async function PUT(
             },
           },
           data: {
-            budget: budget !== undefined ? BigInt(budget) : oldPeriodBudget.budget,
+            budget: newBudget,
+            ...periodDetails,
           },
         });
 
@@ -141,8 +220,18 @@ export async function PUT(
       oldPeriod: actualOldPeriod,
       newPeriod: newPeriod.trim(),
       updated: result.updated,
+      budgetBefore: oldPeriodBudget.budget.toString(),
+      budgetAfter: newBudget.toString(),
+      rescale,
     });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
     console.error('Error renaming period:', error);
     console.error('Error details:', error instanceof Error ? error.message : String(error));
     return NextResponse.json(
@@ -153,32 +242,79 @@ export async function PUT(
 }
 
 /**
- * DELETE /api/sessions/[id]/periods/[period]
- * Delete a period (period budget and allocations - CASCADE)
+ * PATCH /api/sessions/[id]/periods/[period]
+ * Open or close a period; closed periods reject every edit until reopened
  */
-export async function DELETE(
+export async function PATCH(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; period: string }> }
 ) {
   try {
     const { id: sessionId, period } = await params;
+    const auth = await authorizeSession(sessionId, 'edit');
+    if (!auth.ok) return auth.response;
+
+    const body = await request.json();
+    const { status } = periodStatusSchema.parse(body);
 
     // Decode URL-encoded period
     const decodedPeriod = decodeURIComponent(period);
     const actualPeriod = decodedPeriod === 'null' ? null : decodedPeriod;
 
-    // Verify session exists
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
+    const periodBudget = await prisma.periodBudget.findFirst({
+      where: { sessionId, period: actualPeriod },
     });
 
-    if (!session) {
+    if (!periodBudget) {
       return NextResponse.json(
-        { error: 'Session not found' },
+        { error: 'Period not found' },
         { status: 404 }
       );
     }
 
+    await prisma.periodBudget.update({
+      where: { id: periodBudget.id },
+      data: { status },
+    });
+
+    return NextResponse.json({
+      success: true,
+      period: actualPeriod,
+      status,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating period status:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/sessions/[id]/periods/[period]
+ * Delete a period (period budget and allocations - CASCADE)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; period: string }> }
+) {
+  try {
+    const { id: sessionId, period } = await params;
+    const auth = await authorizeSession(sessionId, 'edit');
+    if (!auth.ok) return auth.response;
+
+    // Decode URL-encoded period
+    const decodedPeriod = decodeURIComponent(period);
+    const actualPeriod = decodedPeriod === 'null' ? null : decodedPeriod;
+
     // Check if period budget exists
     const periodBudget = await prisma.periodBudget.findUnique({
       where: {
@@ -196,6 +332,13 @@ export async function DELETE(
       );
     }
 
+    if (!canDeletePeriod(auth.userId, auth.budgetSession, periodBudget)) {
+      return NextResponse.json(
+        { error: 'Period is closed' },
+        { status: 403 }
+      );
+    }
+
     // Delete period budget (allocations will be CASCADE deleted)
     await prisma.periodBudget.delete({
       where: {
@@ -1,11 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authorizeSession } from '@/lib/authorization';
 import { prisma } from '@/lib/prisma';
+import { buildPlaceholderAllocations, recalculateAllocations } from '@/lib/allocation';
+import { loadAllocationContext, toAllocationRecord, toAllocationValues } from '@/lib/allocation-data';
+import { copyPeriodAllocations } from '@/lib/period-copy';
+import { findOverlappingPeriod, periodDetailsSchema, sortPeriods, toDateKey, validatePeriodRange } from '@/lib/periods';
 import { z } from 'zod';
 
-const periodSchema = z.object({
+const periodSchema = periodDetailsSchema.extend({
   period: z.string().min(1).max(100),
-  budget: z.number().int().positive(),
-  copyFrom: z.string().nullable().optional()
+  budget: z.number().int().positive().optional(),
+  copyFrom: z.string().nullable().optional(),
+  // New budget = source period budget × growthFactor (instead of an explicit budget)
+  growthFactor: z.number().positive().optional()
+}).refine(data => (data.budget === undefined) !== (data.growthFactor === undefined), {
+  message: 'Specify either budget or growthFactor',
+  path: ['budget']
+}).refine(data => data.growthFactor === undefined || data.copyFrom, {
+  message: 'growthFactor requires copyFrom',
+  path: ['growthFactor']
 });
 
 /**
@@ -18,34 +31,27 @@ export async function GET(
 ) {
   try {
     const { id: sessionId } = await params;
-
-    // Verify session exists
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-    });
-
-    if (!session) {
-      return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
-      );
-    }
+    const auth = await authorizeSession(sessionId, 'view');
+    if (!auth.ok) return auth.response;
 
     // Get period budgets from period_budgets table
     const periodBudgets = await prisma.periodBudget.findMany({
-      where: { sessionId },
-      orderBy: { period: 'asc' }
+      where: { sessionId }
     });
 
-    // Sort: null (default) comes first, then alphabetically
-    const sorted = periodBudgets.sort((a, b) => {
-      if (a.period === null) return -1;
-      if (b.period === null) return 1;
-      return a.period.localeCompare(b.period);
-    });
+    // Sort: null (default) comes first, then chronologically by start date
+    const sorted = sortPeriods(periodBudgets);
 
     return NextResponse.json({
-      periods: sorted.map(pb => pb.period)
+      periods: sorted.map(pb => pb.period),
+      details: sorted.map(pb => ({
+        period: pb.period,
+        budget: pb.budget.toString(),
+        startDate: pb.startDate && toDateKey(pb.startDate),
+        endDate: pb.endDate && toDateKey(pb.endDate),
+        granularity: pb.granularity,
+        fiscalYear: pb.fiscalYear
+      }))
     });
   } catch (error) {
     console.error('Error fetching periods:', error);
@@ -66,20 +72,19 @@ export async function POST(
 ) {
   try {
     const { id: sessionId } = await params;
+    const auth = await authorizeSession(sessionId, 'edit');
+    if (!auth.ok) return auth.response;
+
     const body = await request.json();
-    const { period, budget, copyFrom } = periodSchema.parse(body);
+    const { period, budget: requestedBudget, copyFrom, growthFactor, startDate = null, endDate = null, granularity = null, fiscalYear = null } = periodSchema.parse(body);
 
     const periodName = period.trim();
 
-    // Verify session exists
-    const session = await prisma.session.findUnique({
-      where: { id: sessionId },
-    });
-
-    if (!session) {
+    const rangeError = validatePeriodRange({ period: periodName, startDate, endDate });
+    if (rangeError) {
       return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
+        { error: rangeError },
+        { status: 400 }
       );
     }
 
@@ -100,12 +105,50 @@ export async function POST(
       );
     }
 
+    // Dated periods must not overlap each other
+    const otherPeriods = await prisma.periodBudget.findMany({
+      where: { sessionId },
+    });
+    const overlapping = findOverlappingPeriod({ period: periodName, startDate, endDate }, otherPeriods);
+
+    if (overlapping) {
+      return NextResponse.json(
+        { error: `Period dates overlap with ${overlapping.period}` },
+        { status: 409 }
+      );
+    }
+
+    const sourcePeriodBudget = copyFrom
+      ? otherPeriods.find(pb => pb.period === copyFrom)
+      : undefined;
+
+    if (copyFrom && !sourcePeriodBudget) {
+      return NextResponse.json(
+        { error: 'Source period not found' },
+        { status: 404 }
+      );
+    }
+
+    const sourceBudget = Number(sourcePeriodBudget?.budget ?? 0);
+    const budget = requestedBudget ?? Math.round(sourceBudget * (growthFactor ?? 1));
+
+    if (budget <= 0) {
+      return NextResponse.json(
+        { error: 'Budget must be a positive number' },
+        { status: 400 }
+      );
+    }
+
     // Create period budget
     await prisma.periodBudget.create({
       data: {
         sessionId,
         period: periodName,
-        budget: BigInt(budget)
+        budget: BigInt(budget),
+        startDate: startDate && new Date(startDate),
+        endDate: endDate && new Date(endDate),
+        granularity,
+        fiscalYear
       }
     });
 
@@ -119,112 +162,43 @@ export async function POST(
         },
       });
 
-      // If source has allocations, copy them
+      // If source has allocations, copy their percentages and recompute amounts for the new budget
       if (sourceAllocations.length > 0) {
+        const ctx = await loadAllocationContext(sessionId);
+        const scale = sourceBudget > 0 ? budget / sourceBudget : 1;
+        const { allocations, droppedPaths, unallocatedPaths } = copyPeriodAllocations(
+          ctx,
+          sourceAllocations.map(toAllocationValues),
+          periodName,
+          scale
+        );
+
         await prisma.allocation.createMany({
-          data: sourceAllocations.map(allocation => ({
-            sessionId: allocation.sessionId,
-            hierarchyPath: allocation.hierarchyPath,
-            level: allocation.level,
-            percentage: allocation.percentage,
-            amount: allocation.amount,
-            quantity: allocation.quantity,
-            period: periodName,
-          })),
+          data: recalculateAllocations(ctx, allocations).map(a => toAllocationRecord(sessionId, a)),
         });
 
         return NextResponse.json({
           success: true,
           period: periodName,
           budget: budget.toString(),
-          copied: sourceAllocations.length,
+          copied: sourceAllocations.length - droppedPaths.length,
+          droppedPaths,
+          unallocatedPaths,
         });
       }
     }
 
     // If no source to copy from, or source is empty, create placeholder allocations
     // Get session's hierarchy structure from SKU data
-    const skuData = await prisma.skuData.findMany({
-      where: { sessionId },
-    });
+    const ctx = await loadAllocationContext(sessionId);
 
-    const hierarchyDefinitions = await prisma.hierarchyDefinition.findMany({
-      where: { sessionId },
-      orderBy: { level: 'asc' },
-    });
-
-    if (skuData.length > 0 && hierarchyDefinitions.length > 0) {
-      // Build hierarchy paths from SKU data
-      const hierarchyPaths = new Set<string>();
-
-      for (const sku of skuData) {
-        const hierarchyValues = sku.hierarchyValues as Record<string, string>;
-
-        for (let level = 1; level <= hierarchyDefinitions.length; level++) {
-          const pathParts: string[] = [];
-
-          for (let i = 0; i < level; i++) {
-            const def = hierarchyDefinitions[i];
-            const value = hierarchyValues[def.columnName];
-            if (value) {
-              pathParts.push(value);
-            }
-          }
-
-          if (pathParts.length === level) {
-            hierarchyPaths.add(pathParts.join('/'));
-          }
-        }
-      }
-
-      // Count children for each parent path to determine which nodes should be 100%
-      const childrenCount = new Map<string, Set<string>>();
-
-      for (const path of hierarchyPaths) {
-        const parts = path.split('/');
-        if (parts.length > 1) {
-          const parentPath = parts.slice(0, -1).join('/');
-          if (!childrenCount.has(parentPath)) {
-            childrenCount.set(parentPath, new Set());
-          }
-          childrenCount.get(parentPath)!.add(path);
-        }
-      }
-
-      // Create allocations with automatic 100% for single children
-      const allocations = Array.from(hierarchyPaths).map(path => {
-        const parts = path.split('/');
-        let percentage = 0;
-
-        // If this node is the only child of its parent, set to 100%
-        if (parts.length > 1) {
-          const parentPath = parts.slice(0, -1).join('/');
-          const siblings = childrenCount.get(parentPath);
-          if (siblings && siblings.size === 1) {
-            percentage = 100;
-          }
-        } else {
-          // Top level - check if there's only one top-level item
-          const topLevelPaths = Array.from(hierarchyPaths).filter(p => p.split('/').length === 1);
-          if (topLevelPaths.length === 1) {
-            percentage = 100;
-          }
-        }
-
-        return {
-          sessionId,
-          hierarchyPath: path,
-          level: parts.length,
-          percentage,
-          amount: BigInt(0),
-          quantity: 0,
-          period: periodName,
-        };
-      });
+    if (ctx.skuData.length > 0 && ctx.hierarchyDefinitions.length > 0) {
+      // Only children start at 100%; amounts for them are derived from the new period budget
+      const allocations = buildPlaceholderAllocations(ctx, periodName);
 
       if (allocations.length > 0) {
         await prisma.allocation.createMany({
-          data: allocations,
+          data: recalculateAllocations(ctx, allocations).map(a => toAllocationRecord(sessionId, a)),
         });
       }
     }
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeSession } from '@/lib/authorization'
+import { prisma } from '@/lib/prisma'
+import { loadAllocationContext, toAllocationValues } from '@/lib/allocation-data'
+import { buildQuantityVarianceReport } from '@/lib/quantity-variance'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeSession(id, 'view')
+    if (!auth.ok) return auth.response
+
+    const ctx = await loadAllocationContext(id)
+    const allocations = await prisma.allocation.findMany({
+      where: { sessionId: id }
+    })
+
+    return NextResponse.json(buildQuantityVarianceReport(ctx, allocations.map(toAllocationValues)))
+  } catch (error) {
+    console.error('Error building quantity variance report:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getServerSession } from 'next-auth'
-import { authOptions } from '@/lib/auth'
+import { authorizeSession } from '@/lib/authorization'
 import { prisma } from '@/lib/prisma'
+import { recalculateAllocations, seedSkuAllocations } from '@/lib/allocation'
+import { loadAllocationContext, toAllocationRecord, toAllocationValues } from '@/lib/allocation-data'
+import { validateAllocations } from '@/lib/allocation-validation'
+import { sortPeriods } from '@/lib/periods'
+import { canEditAllocation, getSessionPermissions } from '@/lib/policy'
 import { z } from 'zod'
 
 const updateSessionSchema = z.object({
   name: z.string().min(1).max(200).optional(),
-  status: z.enum(['draft', 'confirmed', 'archived']).optional()
+  status: z.enum(['draft', 'confirmed', 'archived']).optional(),
+  roundingMode: z.enum(['floor', 'largest_remainder', 'largest_share']).optional(),
+  planningMode: z.enum(['top_down', 'bottom_up']).optional(),
+  quantityDistribution: z.enum(['price_weighted', 'equal_units']).optional()
 })
 
 export async function GET(
@@ -15,16 +22,10 @@ export async function GET(
 ) {
   try {
     const { id } = await params
-    const session = await getServerSession(authOptions)
+    const auth = await authorizeSession(id, 'view')
+    if (!auth.ok) return auth.response
 
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    const budgetSession = await prisma.session.findUnique({
+    const budgetSession = await prisma.session.findUniqueOrThrow({
       where: { id },
       include: {
         category: {
@@ -43,27 +44,13 @@ export async function GET(
       }
     })
 
-    if (!budgetSession) {
-      return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
-      )
-    }
-
-    // 作業中（draft）のセッションは作成者のみアクセス可能
-    if (budgetSession.status === 'draft' && budgetSession.category.userId !== session.user.id) {
-      return NextResponse.json(
-        { error: 'このセッションは作成者が作業中です' },
-        { status: 403 }
-      )
-    }
-
     return NextResponse.json({
       ...budgetSession,
-      periodBudgets: budgetSession.periodBudgets.map(pb => ({
+      periodBudgets: sortPeriods(budgetSession.periodBudgets).map(pb => ({
         ...pb,
         budget: pb.budget.toString()
-      }))
+      })),
+      permissions: getSessionPermissions(auth.userId, budgetSession)
     })
   } catch (error) {
     console.error('Error fetching session:', error)
@@ -80,53 +67,63 @@ export async function PUT(
 ) {
   try {
     const { id } = await params
-    const authSession = await getServerSession(authOptions)
-
-    if (!authSession?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
+    const auth = await authorizeSession(id, 'edit')
+    if (!auth.ok) return auth.response
+    const existingSession = auth.budgetSession
 
     const body = await request.json()
     const data = updateSessionSchema.parse(body)
 
-    // Verify session exists and belongs to user
-    const existingSession = await prisma.session.findUnique({
-      where: { id },
-      include: {
-        category: true
+    // 配分にエラーが残っている場合は確定できない
+    if (data.status === 'confirmed' && existingSession.status !== 'confirmed') {
+      const ctx = await loadAllocationContext(id)
+      const allocations = await prisma.allocation.findMany({ where: { sessionId: id } })
+      const validation = validateAllocations(ctx, allocations.map(toAllocationValues))
+
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: '配分にエラーがあるため確定できません', validation },
+          { status: 400 }
+        )
       }
-    })
-
-    if (!existingSession) {
-      return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
-      )
-    }
-
-    // 作成者のみが編集可能
-    if (existingSession.category.userId !== authSession.user.id) {
-      return NextResponse.json(
-        { error: '作成者のみがセッションを編集できます' },
-        { status: 403 }
-      )
     }
 
     const updateData: any = {}
     if (data.name) updateData.name = data.name
     if (data.status) updateData.status = data.status
+    if (data.roundingMode) updateData.roundingMode = data.roundingMode
+    if (data.planningMode) updateData.planningMode = data.planningMode
+    if (data.quantityDistribution) updateData.quantityDistribution = data.quantityDistribution
 
     const updatedSession = await prisma.session.update({
       where: { id },
       data: updateData,
       include: {
+        category: true,
         periodBudgets: true
       }
     })
 
+    // Re-derive stored amounts and quantities when a calculation rule changes
+    const calculationChanged = (['roundingMode', 'planningMode', 'quantityDistribution'] as const)
+      .some(key => data[key] && data[key] !== existingSession[key])
+
+    if (calculationChanged) {
+      // Closed periods keep the figures they were closed with
+      const ctx = await loadAllocationContext(id)
+      const allocations = await prisma.allocation.findMany({ where: { sessionId: id } })
+      const openAllocations = allocations.filter(a => canEditAllocation(auth.userId, updatedSession, a.period))
+      const openValues = openAllocations.map(toAllocationValues)
+      // Bottom-up only counts SKU rows, so a top-down plan first gets its units at SKU level
+      const switchedToBottomUp = data.planningMode === 'bottom_up' && existingSession.planningMode !== 'bottom_up'
+      const recalculated = recalculateAllocations(ctx, switchedToBottomUp ? seedSkuAllocations(ctx, openValues) : openValues)
+
+      await prisma.$transaction([
+        prisma.allocation.deleteMany({ where: { sessionId: id, id: { in: openAllocations.map(a => a.id) } } }),
+        prisma.allocation.createMany({ data: recalculated.map(a => toAllocationRecord(id, a)) })
+      ])
+    }
+
     return NextResponse.json({
       ...updatedSession,
       periodBudgets: updatedSession.periodBudgets.map(pb => ({
@@ -156,37 +153,8 @@ export async function DELETE(
 ) {
   try {
     const { id } = await params
-    const session = await getServerSession(authOptions)
-
-    if (!session?.user?.id) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      )
-    }
-
-    // Verify session exists and belongs to user
-    const existingSession = await prisma.session.findUnique({
-      where: { id },
-      include: {
-        category: true
-      }
-    })
-
-    if (!existingSession) {
-      return NextResponse.json(
-        { error: 'Session not found' },
-        { status: 404 }
-      )
-    }
-
-    // 作成者のみが削除可能
-    if (existingSession.category.userId !== session.user.id) {
-      return NextResponse.json(
-        { error: '作成者のみがセッションを削除できます' },
-        { status: 403 }
-      )
-    }
+    const auth = await authorizeSession(id, 'delete')
+    if (!auth.ok) return auth.response
 
     await prisma.session.delete({
       where: { id }
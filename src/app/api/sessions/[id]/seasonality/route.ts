@@ -0,0 +1,282 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeSession } from '@/lib/authorization'
+import { prisma } from '@/lib/prisma'
+import { buildPlaceholderAllocations, recalculateAllocations } from '@/lib/allocation'
+import { loadAllocationContext, toAllocationRecord, toAllocationValues } from '@/lib/allocation-data'
+import { findOverlappingPeriod, periodDetailsSchema, validatePeriodRange } from '@/lib/periods'
+import { canEditPeriod, canViewSession } from '@/lib/policy'
+import { deriveWeightsFromSession, spreadAnnualBudget } from '@/lib/seasonality'
+import type { SeasonalityCurve, SeasonalityWeight } from '@/types'
+import { z } from 'zod'
+
+const periodSpecSchema = periodDetailsSchema.extend({
+  period: z.string().trim().min(1).max(100),
+  // Required for the custom profile only
+  weight: z.number().nonnegative().optional()
+})
+
+const seasonalitySchema = z.object({
+  annualBudget: z.number().int().positive(),
+  // Omitted: reapply the curve saved on the session to the new total
+  profile: z.enum(['flat', 'custom', 'previous_session']).optional(),
+  periods: z.array(periodSpecSchema).min(1).optional(),
+  sourceSessionId: z.string().optional()
+}).refine(data => !data.periods || new Set(data.periods.map(p => p.period)).size === data.periods.length, {
+  message: 'Period names must be unique',
+  path: ['periods']
+})
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeSession(id, 'view')
+    if (!auth.ok) return auth.response
+
+    return NextResponse.json({ seasonality: auth.budgetSession.seasonality })
+  } catch (error) {
+    console.error('Error fetching seasonality:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Spreads an annual budget across periods, creating missing periods and
+ * rescaling the allocations of existing ones, then saves the curve.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const auth = await authorizeSession(id, 'edit')
+    if (!auth.ok) return auth.response
+    const { budgetSession } = auth
+
+    const body = await request.json()
+    const { annualBudget, ...input } = seasonalitySchema.parse(body)
+
+    const savedCurve = budgetSession.seasonality as SeasonalityCurve | null
+    const profile = input.profile ?? savedCurve?.profile
+    const periodSpecs: Array<z.infer<typeof periodSpecSchema>> | undefined = input.periods ?? savedCurve?.weights.map(w => ({ period: w.period, weight: w.weight }))
+    const sourceSessionId = input.sourceSessionId ?? (input.profile ? undefined : savedCurve?.sourceSessionId) ?? null
+
+    if (!profile || !periodSpecs) {
+      return NextResponse.json(
+        { error: input.profile ? 'periods is required' : 'No saved seasonality curve to reapply' },
+        { status: 400 }
+      )
+    }
+
+    let weights: SeasonalityWeight[]
+
+    if (profile === 'flat') {
+      weights = periodSpecs.map(spec => ({ period: spec.period, weight: 1 }))
+    } else if (profile === 'custom') {
+      if (periodSpecs.some(spec => spec.weight === undefined)) {
+        return NextResponse.json(
+          { error: 'Every period needs a weight for a custom curve' },
+          { status: 400 }
+        )
+      }
+      weights = periodSpecs.map(spec => ({ period: spec.period, weight: spec.weight ?? 0 }))
+    } else {
+      if (!sourceSessionId) {
+        return NextResponse.json(
+          { error: 'sourceSessionId is required for a previous session curve' },
+          { status: 400 }
+        )
+      }
+
+      const sourceSession = await prisma.session.findUnique({
+        where: { id: sourceSessionId },
+        include: {
+          category: true,
+          periodBudgets: true
+        }
+      })
+
+      if (!sourceSession) {
+        return NextResponse.json(
+          { error: 'Source session not found' },
+          { status: 404 }
+        )
+      }
+
+      if (!canViewSession(auth.userId, sourceSession)) {
+        return NextResponse.json(
+          { error: 'このセッションは作成者が作業中です' },
+          { status: 403 }
+        )
+      }
+
+      const derived = deriveWeightsFromSession(
+        periodSpecs.map(spec => spec.period),
+        sourceSession.periodBudgets.map(pb => ({ ...pb, budget: Number(pb.budget) }))
+      )
+
+      if (!derived) {
+        return NextResponse.json(
+          { error: 'Source session must have the same number of periods' },
+          { status: 400 }
+        )
+      }
+      weights = derived
+    }
+
+    if (weights.reduce((sum, w) => sum + w.weight, 0) <= 0) {
+      return NextResponse.json(
+        { error: 'Seasonality weights must not all be zero' },
+        { status: 400 }
+      )
+    }
+
+    const closedPeriods = budgetSession.periodBudgets
+      .filter(pb => !canEditPeriod(auth.userId, budgetSession, pb) && weights.some(w => w.period === pb.period))
+      .map(pb => pb.period)
+
+    if (closedPeriods.length > 0) {
+      return NextResponse.json(
+        { error: 'Period is closed', periods: closedPeriods },
+        { status: 403 }
+      )
+    }
+
+    const budgets = spreadAnnualBudget(annualBudget, weights, budgetSession.roundingMode)
+
+    // Omitted period fields keep their stored values
+    const targets = periodSpecs.map((spec, i) => {
+      const existing = budgetSession.periodBudgets.find(pb => pb.period === spec.period)
+      return {
+        existing,
+        period: spec.period,
+        budget: budgets[i].budget,
+        startDate: spec.startDate === undefined
+          ? existing?.startDate ?? null
+          : spec.startDate ? new Date(spec.startDate) : null,
+        endDate: spec.endDate === undefined
+          ? existing?.endDate ?? null
+          : spec.endDate ? new Date(spec.endDate) : null,
+        granularity: spec.granularity === undefined ? existing?.granularity ?? null : spec.granularity,
+        fiscalYear: spec.fiscalYear === undefined ? existing?.fiscalYear ?? null : spec.fiscalYear
+      }
+    })
+
+    // Validate the dates against every period the session will have afterwards
+    const untouched = budgetSession.periodBudgets.filter(pb => !targets.some(t => t.period === pb.period))
+    for (const target of targets) {
+      const rangeError = validatePeriodRange(target)
+      if (rangeError) {
+        return NextResponse.json(
+          { error: `${target.period}: ${rangeError}` },
+          { status: 400 }
+        )
+      }
+
+      const overlapping = findOverlappingPeriod(target, [...untouched, ...targets])
+      if (overlapping) {
+        return NextResponse.json(
+          { error: `Period dates overlap: ${target.period} and ${overlapping.period}` },
+          { status: 409 }
+        )
+      }
+    }
+
+    const ctx = await loadAllocationContext(id)
+    const spreadCtx = {
+      ...ctx,
+      periodBudgets: [
+        ...ctx.periodBudgets.filter(pb => !targets.some(t => t.period === pb.period)),
+        ...targets.map(t => ({ period: t.period, budget: t.budget }))
+      ]
+    }
+
+    const existingAllocations = await prisma.allocation.findMany({
+      where: { sessionId: id, period: { in: targets.map(t => t.period) } }
+    })
+    const hasHierarchy = ctx.skuData.length > 0 && ctx.hierarchyDefinitions.length > 0
+
+    // Existing periods keep their percentages; new periods start from placeholders
+    const allocations = recalculateAllocations(spreadCtx, [
+      ...existingAllocations.map(toAllocationValues),
+      ...(hasHierarchy
+        ? targets.filter(t => !t.existing).flatMap(t => buildPlaceholderAllocations(ctx, t.period))
+        : [])
+    ])
+
+    const seasonality: SeasonalityCurve = {
+      profile,
+      sourceSessionId: profile === 'previous_session' ? sourceSessionId : null,
+      annualBudget,
+      weights
+    }
+
+    await prisma.$transaction(async (tx) => {
+      for (const target of targets) {
+        const data = {
+          budget: BigInt(target.budget),
+          startDate: target.startDate,
+          endDate: target.endDate,
+          granularity: target.granularity,
+          fiscalYear: target.fiscalYear
+        }
+
+        if (target.existing) {
+          await tx.periodBudget.update({
+            where: { id: target.existing.id },
+            data
+          })
+        } else {
+          await tx.periodBudget.create({
+            data: { sessionId: id, period: target.period, ...data }
+          })
+        }
+      }
+
+      await tx.allocation.deleteMany({
+        where: { sessionId: id, period: { in: targets.map(t => t.period) } }
+      })
+      await tx.allocation.createMany({
+        data: allocations.map(a => toAllocationRecord(id, a))
+      })
+
+      await tx.session.update({
+        where: { id },
+        data: {
+          seasonality: {
+            ...seasonality,
+            weights: seasonality.weights.map(w => ({ period: w.period, weight: w.weight }))
+          }
+        }
+      })
+    })
+
+    return NextResponse.json({
+      seasonality,
+      periods: targets.map(t => ({
+        period: t.period,
+        budget: t.budget.toString(),
+        created: !t.existing
+      }))
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error spreading annual budget:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
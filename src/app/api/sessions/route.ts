@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/lib/auth'
 import { prisma } from '@/lib/prisma'
+import { canCreateSession, viewableSessionsWhere } from '@/lib/policy'
 import { z } from 'zod'
 
 const sessionSchema = z.object({
@@ -24,18 +25,11 @@ export async function GET(request: NextRequest) {
     const categoryId = searchParams.get('categoryId')
 
     // 作業中（draft）のセッションは作成者のみ、公開済み（confirmed/archived）は全員が見れる
-    const where: any = categoryId ? { categoryId } : {}
-
-    where.OR = [
-      { status: { in: ['confirmed', 'archived'] } }, // 公開済みは全員
-      {
-        status: 'draft',
-        category: { userId: session.user.id } // 作業中は作成者のみ
-      }
-    ]
-
     const sessions = await prisma.session.findMany({
-      where,
+      where: {
+        ...(categoryId ? { categoryId } : {}),
+        ...viewableSessionsWhere(session.user.id)
+      },
       include: {
         category: {
           include: {
@@ -95,6 +89,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (!canCreateSession(authSession.user, category)) {
+      return NextResponse.json(
+        { error: '所有者のみがセッションを作成できます' },
+        { status: 403 }
+      )
+    }
+
     // Create session without periods (user will add periods later)
     const newSession = await prisma.session.create({
       data: {
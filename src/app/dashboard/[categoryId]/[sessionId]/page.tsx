@@ -3,8 +3,9 @@
 import { Fragment, useEffect, useState } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { useSession } from 'next-auth/react'
-import { ArrowLeft, Upload, Download, Save, Calendar, Plus, Edit2, Trash2 } from 'lucide-react'
-import Papa from 'papaparse'
+import { ArrowLeft, Upload, Download, Edit2, Calendar, Plus, Trash2 } from 'lucide-react'
+import { roundPercentage } from '@/lib/allocation'
+import type { SessionPermissions } from '@/types'
 
 interface Session {
   id: string
@@ -15,6 +16,7 @@ interface Session {
     period: string | null
     budget: string
   }>
+  permissions: SessionPermissions
   category?: {
     id: string
     name: string
@@ -62,13 +64,12 @@ interface HierarchyNode {
 export default function SessionPage() {
   const router = useRouter()
   const params = useParams()
-  const { data: authSession, status } = useSession()
+  const { status } = useSession()
   const [session, setSession] = useState<Session | null>(null)
   const [skuData, setSkuData] = useState<SkuData[]>([])
   const [allocations, setAllocations] = useState<Allocation[]>([])
   const [hierarchyTree, setHierarchyTree] = useState<HierarchyNode[]>([])
   const [loading, setLoading] = useState(true)
-  const [showUploadModal, setShowUploadModal] = useState(false)
 
   // Period management states
   const [availablePeriods, setAvailablePeriods] = useState<Array<string | null>>([])
@@ -127,56 +128,8 @@ export default function SessionPage() {
     }
   }
 
-  const handleCSVUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
-
-    Papa.parse(file, {
-      header: true,
-      complete: async (results) => {
-        const data = results.data as any[]
-        if (data.length === 0) return
-
-        // Extract hierarchy columns (all columns except sku_code and unitprice)
-        const allColumns = Object.keys(data[0])
-        const hierarchyColumns = allColumns.filter(
-          col => col !== 'sku_code' && col !== 'unitprice'
-        )
-
-        // Transform data
-        const skuData = data
-          .filter(row => row.sku_code && row.unitprice)
-          .map(row => {
-            const hierarchyValues: Record<string, string> = {}
-            hierarchyColumns.forEach(col => {
-              if (row[col]) {
-                hierarchyValues[col] = row[col]
-              }
-            })
-
-            return {
-              skuCode: row.sku_code,
-              unitPrice: parseInt(row.unitprice),
-              hierarchyValues
-            }
-          })
-
-        try {
-          const response = await fetch(`/api/sessions/${params.sessionId}/import`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ skuData, hierarchyColumns })
-          })
-
-          if (response.ok) {
-            setShowUploadModal(false)
-            loadData()
-          }
-        } catch (error) {
-          console.error('Error uploading CSV:', error)
-        }
-      }
-    })
+  const openImport = () => {
+    router.push(`/dashboard/${params.categoryId}/${params.sessionId}/spreadsheet`)
   }
 
   const handleExport = async () => {
@@ -193,62 +146,6 @@ export default function SessionPage() {
     }
   }
 
-  const updateAllocation = (path: string, percentage: number) => {
-    if (!session) return
-
-    // Calculate total budget from all periods
-    const totalBudget = session.periodBudgets.reduce((sum, pb) => sum + parseInt(pb.budget), 0)
-    const amount = Math.floor(totalBudget * (percentage / 100))
-
-    // Find related SKUs
-    const relatedSkus = skuData.filter(sku => {
-      const skuPath = buildHierarchyPath(sku, session.hierarchyDefinitions, path.split('/').length)
-      return skuPath === path
-    })
-
-    // Calculate quantity (sum of unit prices)
-    const totalUnitPrice = relatedSkus.reduce((sum, sku) => sum + sku.unitPrice, 0)
-    const quantity = totalUnitPrice > 0 ? Math.floor(amount / totalUnitPrice) : 0
-
-    const existingIndex = allocations.findIndex(a => a.hierarchyPath === path && a.period === selectedPeriod)
-    if (existingIndex >= 0) {
-      const updated = [...allocations]
-      updated[existingIndex] = {
-        ...updated[existingIndex],
-        percentage,
-        amount: amount.toString(),
-        quantity
-      }
-      setAllocations(updated)
-    } else {
-      setAllocations([
-        ...allocations,
-        {
-          hierarchyPath: path,
-          level: path.split('/').length,
-          percentage,
-          amount: amount.toString(),
-          quantity,
-          period: selectedPeriod
-        }
-      ])
-    }
-  }
-
-  const saveAllocations = async () => {
-    try {
-      await fetch(`/api/sessions/${params.sessionId}/allocations`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ allocations })
-      })
-      alert('保存しました')
-    } catch (error) {
-      console.error('Error saving allocations:', error)
-      alert('保存に失敗しました')
-    }
-  }
-
   // Period management functions
   const addPeriod = async () => {
     if (!periodModalValue || periodModalValue.trim() === '') {
@@ -456,7 +353,7 @@ export default function SessionPage() {
                       {session.status === 'confirmed' ? '確定' :
                        session.status === 'archived' ? 'アーカイブ' : '作業中'}
                     </span>
-                    {session.category?.userId === authSession?.user?.id && session.status !== 'draft' && (
+                    {session.permissions.canEdit && session.status !== 'draft' && (
                       <button
                         onClick={async () => {
                           if (confirm('ステータスを「作業中」に戻しますか？')) {
@@ -504,7 +401,7 @@ export default function SessionPage() {
                           </option>
                         ))}
                       </select>
-                      {session.category?.userId === authSession?.user?.id && (
+                      {session.permissions.canEdit && (
                         <div className="flex gap-1">
                           <button
                             onClick={() => {
@@ -557,17 +454,24 @@ export default function SessionPage() {
               </div>
             </div>
             <div className="flex gap-2">
-              <button onClick={() => setShowUploadModal(true)} className="btn btn-primary flex items-center gap-2">
-                <Upload size={20} />
-                CSV取り込み
-              </button>
+              {/* 取り込みはプレビュー・差分確認・カラム割り当てのあるスプレッドシート画面で行う */}
+              {session.permissions.canEdit && (
+                <button onClick={openImport} className="btn btn-primary flex items-center gap-2">
+                  <Upload size={20} />
+                  CSV取り込み
+                </button>
+              )}
               <button onClick={handleExport} className="btn btn-secondary flex items-center gap-2">
                 <Download size={20} />
                 エクスポート
               </button>
-              <button onClick={saveAllocations} className="btn btn-primary flex items-center gap-2">
-                <Save size={20} />
-                保存
+              {/* 配分の編集は共通の計算エンジンを使うスプレッドシート画面で行う */}
+              <button
+                onClick={() => router.push(`/dashboard/${params.categoryId}/${params.sessionId}/spreadsheet`)}
+                className="btn btn-primary flex items-center gap-2"
+              >
+                <Edit2 size={20} />
+                スプレッドシートで開く
               </button>
             </div>
           </div>
@@ -578,9 +482,11 @@ export default function SessionPage() {
         {skuData.length === 0 ? (
           <div className="card text-center py-12">
             <p className="text-gray-600 mb-4">CSVファイルをアップロードしてください</p>
-            <button onClick={() => setShowUploadModal(true)} className="btn btn-primary">
-              CSV取り込み
-            </button>
+            {session.permissions.canEdit && (
+              <button onClick={openImport} className="btn btn-primary">
+                CSV取り込み
+              </button>
+            )}
           </div>
         ) : (
           <div className="card overflow-x-auto">
@@ -594,41 +500,13 @@ export default function SessionPage() {
                 </tr>
               </thead>
               <tbody>
-                {renderHierarchyNodes(hierarchyTree, updateAllocation)}
+                {renderHierarchyNodes(hierarchyTree)}
               </tbody>
             </table>
           </div>
         )}
       </main>
 
-      {/* Upload Modal */}
-      {showUploadModal && (
-        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-lg w-full max-w-md">
-            <h2 className="text-xl font-bold mb-4">CSV取り込み</h2>
-            <div className="mb-4">
-              <label className="label">CSVファイル</label>
-              <input
-                type="file"
-                accept=".csv"
-                onChange={handleCSVUpload}
-                className="w-full"
-              />
-              <p className="text-sm text-gray-600 mt-2">
-                必須カラム: sku_code, unitprice<br />
-                その他のカラムは自動的に階層として認識されます
-              </p>
-            </div>
-            <button
-              onClick={() => setShowUploadModal(false)}
-              className="btn btn-secondary w-full"
-            >
-              キャンセル
-            </button>
-          </div>
-        </div>
-      )}
-
       {/* Period Management Modal */}
       {showPeriodModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -760,11 +638,7 @@ export default function SessionPage() {
   )
 }
 
-function renderHierarchyNodes(
-  nodes: HierarchyNode[],
-  updateAllocation: (path: string, percentage: number) => void,
-  depth = 0
-): React.ReactNode {
+function renderHierarchyNodes(nodes: HierarchyNode[], depth = 0): React.ReactNode {
   return nodes.map((node) => (
     <Fragment key={node.path}>
       <tr className="border-b hover:bg-gray-50">
@@ -772,15 +646,7 @@ function renderHierarchyNodes(
           {node.name}
         </td>
         <td className="text-right py-2 px-4">
-          <input
-            type="number"
-            className="w-24 px-2 py-1 border rounded text-right"
-            value={node.percentage}
-            onChange={(e) => updateAllocation(node.path, parseFloat(e.target.value) || 0)}
-            min="0"
-            max="100"
-            step="0.01"
-          />
+          {roundPercentage(node.percentage)}%
         </td>
         <td className="text-right py-2 px-4">
           ¥{node.amount.toLocaleString()}
@@ -789,7 +655,7 @@ function renderHierarchyNodes(
           {node.quantity}
         </td>
       </tr>
-      {node.children.length > 0 && renderHierarchyNodes(node.children, updateAllocation, depth + 1)}
+      {node.children.length > 0 && renderHierarchyNodes(node.children, depth + 1)}
     </Fragment>
   ))
 }
@@ -1,21 +1,78 @@
 'use client'
 
-import { useEffect, useState, Fragment } from 'react'
+import { useEffect, useMemo, useState, Fragment } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { useSession } from 'next-auth/react'
-import { ArrowLeft, Save, ChevronDown, ChevronRight, ChevronUp, Download, Calendar, Plus, Edit2, Trash2, Upload, Loader2 } from 'lucide-react'
-import Papa from 'papaparse'
+import { ArrowLeft, Save, ChevronDown, ChevronRight, ChevronUp, Download, Calendar, Plus, Edit2, Trash2, Upload, Loader2, AlertTriangle, Wand2, Lock, Unlock, Target, TrendingUp } from 'lucide-react'
+import {
+  buildHierarchyPath,
+  buildSkuPath,
+  calculatePeriodTotal,
+  calculateSkuAmounts,
+  calculateUnitCost,
+  cascadeAllocations,
+  collectHierarchyPaths,
+  computeAllocation,
+  computeAllocationByAmount,
+  createAllocationContext,
+  getParentAmount as getEngineParentAmount,
+  getPathLevel,
+  indexAllocations,
+  rebalanceSiblings,
+  recalculateSiblings,
+  rollUpAllocations,
+  roundPercentage,
+  upsertAllocation
+} from '@/lib/allocation'
+import { findMissingColumns, getMappedColumns } from '@/lib/import-mapping'
+import { toDateKey } from '@/lib/periods'
+import { buildQuantityVarianceReport } from '@/lib/quantity-variance'
+import type {
+  AllocationIssue,
+  AllocationStrategy,
+  AllocationValidationReport,
+  AllocationValues,
+  CategoryDeletionPlan,
+  CategoryPermissions,
+  CsvEncoding,
+  GoalSeekResult,
+  GoalSeekTarget,
+  ImportColumnMapping,
+  ImportPreview,
+  ImportValidationMode,
+  ImportValidationReport,
+  PeriodGranularity,
+  PeriodStatus,
+  PlanningMode,
+  QuantityDistribution,
+  RoundingMode,
+  SeasonalityCurve,
+  SeasonalityProfile,
+  SessionPermissions,
+  SkuDataDiff,
+  SkuImportResult
+} from '@/types'
 
 interface PeriodBudget {
   period: string | null
   budget: string
+  startDate: string | null
+  endDate: string | null
+  granularity: PeriodGranularity | null
+  fiscalYear: number | null
+  status: PeriodStatus
 }
 
 interface Session {
   id: string
   name: string
   status: string
+  roundingMode: RoundingMode
+  planningMode: PlanningMode
+  quantityDistribution: QuantityDistribution
+  seasonality: SeasonalityCurve | null
   periodBudgets: PeriodBudget[]
+  permissions: SessionPermissions
   hierarchyDefinitions: Array<{
     level: number
     columnName: string
@@ -36,6 +93,8 @@ interface SkuData {
   id: string
   skuCode: string
   unitPrice: number
+  caseSize?: number | null
+  minOrderQty?: number | null
   hierarchyValues: Record<string, string>
 }
 
@@ -46,12 +105,16 @@ interface Allocation {
   amount: string
   quantity: number
   period?: string | null
+  skuQuantities?: Record<string, number> | null
+  locked?: boolean
 }
 
 interface PeriodData {
   percentage: number
   amount: number
   quantity: number
+  skuQuantities: Record<string, number> | null
+  locked: boolean
 }
 
 interface HierarchyNode {
@@ -63,13 +126,36 @@ interface HierarchyNode {
   children: HierarchyNode[]
 }
 
+const toAllocationValues = (allocation: Allocation): AllocationValues => ({
+  ...allocation,
+  amount: parseInt(allocation.amount),
+  period: allocation.period ?? null
+})
+
+const toClientAllocation = (allocation: AllocationValues): Allocation => ({
+  ...allocation,
+  amount: allocation.amount.toString()
+})
+
+// 階層ノードの数量の内訳（SKUごとの個数）をツールチップ用に整形
+const formatSkuQuantities = (skuQuantities: Record<string, number> | null | undefined) =>
+  skuQuantities
+    ? Object.entries(skuQuantities).map(([skuCode, quantity]) => `${skuCode}: ${quantity.toLocaleString()}個`).join('\n')
+    : undefined
+
+const CSV_ENCODING_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-8-bom': 'UTF-8（BOM付き）',
+  shift_jis: 'Shift_JIS（CP932）'
+}
+
 export default function SpreadsheetPage() {
   const router = useRouter()
   const params = useParams()
-  const { data: authSession, status } = useSession()
+  const { status } = useSession()
 
   const [session, setSession] = useState<Session | null>(null)
-  const [category, setCategory] = useState<{ id: string; name: string } | null>(null)
+  const [category, setCategory] = useState<{ id: string; name: string; permissions: CategoryPermissions } | null>(null)
   const [skuData, setSkuData] = useState<SkuData[]>([])
   const [allocations, setAllocations] = useState<Allocation[]>([])
   const [loading, setLoading] = useState(true)
@@ -82,7 +168,21 @@ export default function SpreadsheetPage() {
   const [showDeleteSessionModal, setShowDeleteSessionModal] = useState(false)
   const [showDeleteCategoryModal, setShowDeleteCategoryModal] = useState(false)
   const [deleteConfirmText, setDeleteConfirmText] = useState('')
+  const [categoryDeletion, setCategoryDeletion] = useState<{ deletable: boolean; plan: CategoryDeletionPlan } | null>(null)
+  const [forceDeleteCategory, setForceDeleteCategory] = useState(false)
   const [showUploadModal, setShowUploadModal] = useState(false)
+  // 取り込み前にカラムの割り当てを選ぶステップ
+  const [columnMapping, setColumnMapping] = useState<{ file: File; preview: ImportPreview; mapping: ImportColumnMapping } | null>(null)
+  const [saveColumnMapping, setSaveColumnMapping] = useState(false)
+  // Excelで保存し直したCSVはShift_JISやBOM付きUTF-8になるため、既定では自動判定
+  const [csvEncoding, setCsvEncoding] = useState<CsvEncoding | 'auto'>('auto')
+  const [normalizeCsv, setNormalizeCsv] = useState(false)
+  const [reimportPreview, setReimportPreview] = useState<{ file: File; mapping: ImportColumnMapping; diff: SkuDataDiff; skipped: number } | null>(null)
+  // strict: エラーが1件でもあれば取り込まない、lenient: エラーのある行だけ除外
+  const [importValidationMode, setImportValidationMode] = useState<ImportValidationMode>('strict')
+  const [importReport, setImportReport] = useState<ImportValidationReport | null>(null)
+  // 再取り込みでSKUが変わった階層（配分は維持されるが見直しが必要）
+  const [reviewPaths, setReviewPaths] = useState<Set<string>>(new Set())
 
   // Period management states
   const [availablePeriods, setAvailablePeriods] = useState<Array<string | null>>([])
@@ -92,7 +192,34 @@ export default function SpreadsheetPage() {
   const [periodModalNewValue, setPeriodModalNewValue] = useState('')
   const [periodModalBudget, setPeriodModalBudget] = useState('')
   const [periodModalCopyFrom, setPeriodModalCopyFrom] = useState<string | null>(null)
+  const [periodModalStartDate, setPeriodModalStartDate] = useState('')
+  const [periodModalEndDate, setPeriodModalEndDate] = useState('')
+  const [periodModalGranularity, setPeriodModalGranularity] = useState<PeriodGranularity | ''>('')
+  const [periodModalFiscalYear, setPeriodModalFiscalYear] = useState('')
+  const [periodModalKeepAmounts, setPeriodModalKeepAmounts] = useState(false)
+  const [periodModalGrowthFactor, setPeriodModalGrowthFactor] = useState('')
   const [showPeriodBreakdown, setShowPeriodBreakdown] = useState(true)
+  const [cascadeMode, setCascadeMode] = useState(true)
+  const [rebalanceMode, setRebalanceMode] = useState(false)
+  const [validation, setValidation] = useState<AllocationValidationReport | null>(null)
+  const [showFixList, setShowFixList] = useState(false)
+  const [showAutoAllocateModal, setShowAutoAllocateModal] = useState(false)
+  const [autoAllocatePeriod, setAutoAllocatePeriod] = useState<string | null>(null)
+  const [autoAllocateStrategy, setAutoAllocateStrategy] = useState<AllocationStrategy>('equal')
+  const [autoAllocateOnlyUnallocated, setAutoAllocateOnlyUnallocated] = useState(true)
+  const [showGoalSeekModal, setShowGoalSeekModal] = useState(false)
+  const [goalSeekPeriod, setGoalSeekPeriod] = useState<string | null>(null)
+  const [goalSeekPath, setGoalSeekPath] = useState('')
+  const [goalSeekTarget, setGoalSeekTarget] = useState('')
+  const [goalSeekSolveFor, setGoalSeekSolveFor] = useState<GoalSeekTarget>('budget')
+  const [goalSeekPreview, setGoalSeekPreview] = useState<GoalSeekResult | null>(null)
+  const [showSeasonalityModal, setShowSeasonalityModal] = useState(false)
+  const [seasonalityBudget, setSeasonalityBudget] = useState('')
+  // 'saved' reapplies the curve stored on the session
+  const [seasonalityProfile, setSeasonalityProfile] = useState<SeasonalityProfile | 'saved'>('flat')
+  const [seasonalityPeriods, setSeasonalityPeriods] = useState('')
+  const [seasonalitySourceId, setSeasonalitySourceId] = useState('')
+  const [sourceSessions, setSourceSessions] = useState<Array<{ id: string; name: string }>>([])
 
   // Loading states for async operations
   const [loadingOperations, setLoadingOperations] = useState<{
@@ -102,13 +229,19 @@ export default function SpreadsheetPage() {
     periodAdd: boolean
     periodRename: boolean
     periodDelete: boolean
+    autoAllocate: boolean
+    goalSeek: boolean
+    seasonality: boolean
   }>({
     save: false,
     csvExport: false,
     csvImport: false,
     periodAdd: false,
     periodRename: false,
-    periodDelete: false
+    periodDelete: false,
+    autoAllocate: false,
+    goalSeek: false,
+    seasonality: false
   })
 
   useEffect(() => {
@@ -121,12 +254,13 @@ export default function SpreadsheetPage() {
 
   const loadData = async () => {
     try {
-      const [sessionRes, skuRes, allocRes, periodsRes, categoryRes] = await Promise.all([
+      const [sessionRes, skuRes, allocRes, periodsRes, categoryRes, validationRes] = await Promise.all([
         fetch(`/api/sessions/${params.sessionId}`),
         fetch(`/api/sessions/${params.sessionId}/sku-data`),
         fetch(`/api/sessions/${params.sessionId}/allocations`),
         fetch(`/api/sessions/${params.sessionId}/periods`),
-        fetch(`/api/categories/${params.categoryId}`)
+        fetch(`/api/categories/${params.categoryId}`),
+        fetch(`/api/sessions/${params.sessionId}/validation`)
       ])
 
       if (sessionRes.ok) {
@@ -156,6 +290,10 @@ export default function SpreadsheetPage() {
         const categoryData = await categoryRes.json()
         setCategory(categoryData)
       }
+
+      if (validationRes.ok) {
+        setValidation(await validationRes.json())
+      }
     } catch (error) {
       console.error('Error loading data:', error)
     } finally {
@@ -163,16 +301,6 @@ export default function SpreadsheetPage() {
     }
   }
 
-  const buildHierarchyPath = (sku: SkuData, definitions: Session['hierarchyDefinitions'], maxLevel: number): string => {
-    const parts: string[] = []
-    for (let i = 0; i < maxLevel && i < definitions.length; i++) {
-      const colName = definitions[i].columnName
-      const value = sku.hierarchyValues[colName]
-      if (value) parts.push(value)
-    }
-    return parts.join('/')
-  }
-
   const buildHierarchyTree = (): HierarchyNode[] => {
     if (!session || skuData.length === 0) return []
 
@@ -199,7 +327,9 @@ export default function SpreadsheetPage() {
             periodData.set(alloc.period || null, {
               percentage: alloc.percentage,
               amount: parseInt(alloc.amount),
-              quantity: alloc.quantity
+              quantity: alloc.quantity,
+              skuQuantities: alloc.skuQuantities ?? null,
+              locked: alloc.locked ?? false
             })
           }
 
@@ -231,7 +361,7 @@ export default function SpreadsheetPage() {
 
       // Add SKU level (final level)
       const parentPath = buildHierarchyPath(sku, session.hierarchyDefinitions, session.hierarchyDefinitions.length)
-      const skuPath = parentPath ? `${parentPath}/${sku.skuCode}` : sku.skuCode
+      const skuPath = buildSkuPath(sku, session.hierarchyDefinitions)
       const skuLevel = session.hierarchyDefinitions.length + 1
 
       if (!nodeMap.has(skuPath)) {
@@ -243,7 +373,9 @@ export default function SpreadsheetPage() {
           periodData.set(alloc.period || null, {
             percentage: alloc.percentage,
             amount: parseInt(alloc.amount),
-            quantity: alloc.quantity
+            quantity: alloc.quantity,
+            skuQuantities: alloc.skuQuantities ?? null,
+            locked: alloc.locked ?? false
           })
         }
 
@@ -274,6 +406,32 @@ export default function SpreadsheetPage() {
     }
   }, [session, skuData, allocations])
 
+  const allocationContext = useMemo(() => {
+    if (!session) return null
+    return createAllocationContext(
+      session.hierarchyDefinitions,
+      skuData,
+      (session.periodBudgets || []).map(pb => ({ period: pb.period, budget: parseInt(pb.budget) })),
+      session
+    )
+  }, [session, skuData])
+
+  const allocationIndex = useMemo(() => indexAllocations(allocations.map(toAllocationValues)), [allocations])
+
+  const isBottomUp = session?.planningMode === 'bottom_up'
+  // 締めた期間は読み取り専用
+  const closedPeriods = new Set((session?.periodBudgets || []).filter(pb => pb.status === 'closed').map(pb => pb.period))
+  // 編集できるかどうかはサーバーの権限判定に従う
+  const canEdit = session?.permissions.canEdit ?? false
+  const editablePeriods = new Set(session?.permissions.editablePeriods ?? [])
+
+  // ケース入数・最小発注数が設定されている場合のみ、丸め後の発注額との差を表示
+  const hasOrderConstraints = skuData.some(sku => sku.caseSize || sku.minOrderQty)
+  const quantityVariance = useMemo(() => {
+    if (!allocationContext || !hasOrderConstraints) return null
+    return buildQuantityVarianceReport(allocationContext, allocations.map(toAllocationValues))
+  }, [allocationContext, allocations, hasOrderConstraints])
+
   const toggleGroup = (path: string) => {
     const newExpanded = new Set(expandedGroups)
     if (newExpanded.has(path)) {
@@ -350,8 +508,7 @@ export default function SpreadsheetPage() {
 
       skuData.forEach(sku => {
         // SKUまでのパスを構築
-        const parentPath = buildHierarchyPath(sku, session.hierarchyDefinitions, session.hierarchyDefinitions.length)
-        const skuPath = parentPath ? `${parentPath}/${sku.skuCode}` : sku.skuCode
+        const skuPath = buildSkuPath(sku, session.hierarchyDefinitions)
         const pathParts = skuPath.split('/')
 
         // 累積割合を計算（CSV exportと同じロジック）
@@ -395,137 +552,136 @@ export default function SpreadsheetPage() {
 
   const progress = calculateProgress()
 
-  const getParentAmount = (path: string, period: string | null, allocs = allocations): number => {
-    if (!session) return 0
-
-    const pathParts = path.split('/')
-    if (pathParts.length === 1) {
-      // L1: use period budget
-      const periodBudget = session.periodBudgets.find(pb => pb.period === period)
-      return periodBudget ? parseInt(periodBudget.budget) : 0
-    }
-
-    const parentPath = pathParts.slice(0, -1).join('/')
-    const parentAlloc = allocs.find((a: Allocation) => a.hierarchyPath === parentPath && a.period === period)
-
-    if (parentAlloc) {
-      return parseInt(parentAlloc.amount)
-    }
-
-    // Fallback: use period budget
-    const periodBudget = session.periodBudgets.find(pb => pb.period === period)
-    return periodBudget ? parseInt(periodBudget.budget) : 0
+  const getParentAmount = (path: string, period: string | null): number => {
+    if (!allocationContext) return 0
+    return getEngineParentAmount(allocationContext, allocationIndex, path, period)
   }
 
   const updateAllocation = (path: string, period: string | null, percentage: number) => {
-    if (!session) return
+    if (!allocationContext) return
 
-    const parentAmount = getParentAmount(path, period, allocations)
-    const amount = Math.floor(parentAmount * (percentage / 100))
+    const entry = computeAllocation(allocationContext, allocations.map(toAllocationValues), path, period, percentage)
+    applyAllocationEntry(entry)
+  }
 
-    console.log('updateAllocation called:', {
-      path,
-      period,
-      percentage,
-      parentAmount,
-      calculatedAmount: amount
-    })
+  const updateAllocationByAmount = (path: string, period: string | null, amount: number) => {
+    if (!allocationContext) return
 
-    const pathLevel = path.split('/').length
-    let relatedSkus: SkuData[] = []
+    const parentAmount = getParentAmount(path, period)
 
-    if (pathLevel === session.hierarchyDefinitions.length + 1) {
-      const skuCode = path.split('/').pop()
-      relatedSkus = skuData.filter(sku => sku.skuCode === skuCode)
-    } else {
-      relatedSkus = skuData.filter(sku => {
-        const skuPath = buildHierarchyPath(sku, session.hierarchyDefinitions, pathLevel)
-        return skuPath === path
-      })
+    // Validate: amount should not exceed parent amount
+    if (amount > parentAmount) {
+      alert(`金額が親の配分額（¥${parentAmount.toLocaleString()}）を超えています`)
+      return
     }
 
-    const totalUnitPrice = relatedSkus.reduce((sum, sku) => sum + sku.unitPrice, 0)
-    const quantity = totalUnitPrice > 0 ? Math.floor(amount / totalUnitPrice) : 0
+    const entry = computeAllocationByAmount(allocationContext, allocations.map(toAllocationValues), path, period, amount)
+    applyAllocationEntry(entry)
+  }
 
-    const existingIndex = allocations.findIndex(a => a.hierarchyPath === path && a.period === period)
-    let updated: Allocation[]
+  // 兄弟ノード間で端数を配分し、カスケードモードでは配下の全階層の金額・数量も再計算
+  // 自動調整モードでは残りの割合をロックされていない兄弟ノードに按分する
+  const applyAllocationEntry = (entry: AllocationValues) => {
+    if (!allocationContext) return
 
-    if (existingIndex >= 0) {
-      updated = [...allocations]
-      updated[existingIndex] = {
-        ...updated[existingIndex],
-        percentage,
-        amount: amount.toString(),
-        quantity
-      }
-    } else {
-      updated = [...allocations, {
-        hierarchyPath: path,
-        level: pathLevel,
-        percentage,
-        amount: amount.toString(),
-        quantity,
-        period
-      }]
+    let updated = upsertAllocation(allocations.map(toAllocationValues), entry)
+    if (rebalanceMode) {
+      updated = rebalanceSiblings(allocationContext, updated, entry.hierarchyPath, entry.period)
     }
-
-    console.log('Updated allocations:', updated.filter(a => a.hierarchyPath === path))
-    setAllocations(updated)
+    const result = cascadeMode
+      ? cascadeAllocations(allocationContext, updated, entry.hierarchyPath, entry.period)
+      : recalculateSiblings(allocationContext, updated, entry.hierarchyPath, entry.period)
+    setAllocations(result.map(toClientAllocation))
   }
 
-  const updateAllocationByAmount = (path: string, period: string | null, amount: number) => {
-    if (!session) return
-
-    const parentAmount = getParentAmount(path, period, allocations)
-
-    // Calculate percentage from amount: percentage = (amount / parentAmount) * 100
-    const percentage = parentAmount > 0 ? (amount / parentAmount) * 100 : 0
+  // 積み上げモード: SKUの数量から金額を算出し、上位階層へ集計
+  const updateSkuQuantity = (path: string, period: string | null, quantity: number) => {
+    if (!allocationContext) return
+
+    const updated = upsertAllocation(allocations.map(toAllocationValues), {
+      hierarchyPath: path,
+      level: getPathLevel(path),
+      percentage: 0,
+      amount: 0,
+      quantity,
+      period
+    })
+    setAllocations(rollUpAllocations(allocationContext, updated).map(toClientAllocation))
+  }
 
-    // Validate: amount should not exceed parent amount
-    if (amount > parentAmount) {
-      alert(`金額が親の配分額（¥${parentAmount.toLocaleString()}）を超えています`)
+  // 積み上げモード: 集計した合計額を期間予算に反映（未保存の配分も合わせて保存）
+  const writeBackBudget = async (period: string) => {
+    const total = calculatePeriodTotal(allocations.map(toAllocationValues), period)
+    if (total <= 0) {
+      alert('積み上げ合計が0のため予算に反映できません')
       return
     }
 
-    const pathLevel = path.split('/').length
-    let relatedSkus: SkuData[] = []
+    if (!confirm(`期間「${period}」の予算を積み上げ合計（¥${total.toLocaleString()}）に更新しますか？`)) {
+      return
+    }
 
-    if (pathLevel === session.hierarchyDefinitions.length + 1) {
-      const skuCode = path.split('/').pop()
-      relatedSkus = skuData.filter(sku => sku.skuCode === skuCode)
-    } else {
-      relatedSkus = skuData.filter(sku => {
-        const skuPath = buildHierarchyPath(sku, session.hierarchyDefinitions, pathLevel)
-        return skuPath === path
+    try {
+      const saveResponse = await fetch(`/api/sessions/${params.sessionId}/allocations`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          allocations: allocations.map(a => ({ ...a, amount: parseInt(a.amount) })),
+          cascade: true
+        })
       })
-    }
 
-    const totalUnitPrice = relatedSkus.reduce((sum, sku) => sum + sku.unitPrice, 0)
-    const quantity = totalUnitPrice > 0 ? Math.floor(amount / totalUnitPrice) : 0
+      if (!saveResponse.ok) {
+        alert('配分の保存に失敗しました')
+        return
+      }
 
-    const existingIndex = allocations.findIndex(a => a.hierarchyPath === path && a.period === period)
-    let updated: Allocation[]
+      const response = await fetch(`/api/sessions/${params.sessionId}/periods/${encodeURIComponent(period)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ newPeriod: period, budget: total })
+      })
 
-    if (existingIndex >= 0) {
-      updated = [...allocations]
-      updated[existingIndex] = {
-        ...updated[existingIndex],
-        percentage,
-        amount: amount.toString(),
-        quantity
+      if (response.ok) {
+        await loadData()
+        await loadValidation()
+        alert('予算を更新しました')
+      } else {
+        const error = await response.json()
+        alert(`予算の更新に失敗しました: ${error.error}`)
       }
-    } else {
-      updated = [...allocations, {
-        hierarchyPath: path,
-        level: pathLevel,
-        percentage,
-        amount: amount.toString(),
-        quantity,
-        period
-      }]
+    } catch (error) {
+      console.error('Error writing back budget:', error)
+      alert('予算の更新に失敗しました')
     }
+  }
 
-    setAllocations(updated)
+  // 計算方式の変更はサーバー側で全配分を再計算するため、保存後に再読み込み
+  const updateSessionSettings = async (
+    settings: Partial<Pick<Session, 'roundingMode' | 'planningMode' | 'quantityDistribution'>>,
+    errorMessage: string
+  ) => {
+    try {
+      const response = await fetch(`/api/sessions/${params.sessionId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(settings)
+      })
+      if (response.ok) {
+        await loadData()
+      } else {
+        alert(errorMessage)
+      }
+    } catch (error) {
+      console.error('Error updating session settings:', error)
+      alert(errorMessage)
+    }
+  }
+
+  const toggleLock = (path: string, period: string | null) => {
+    setAllocations(prev => prev.map(a =>
+      a.hierarchyPath === path && (a.period ?? null) === period ? { ...a, locked: !a.locked } : a
+    ))
   }
 
   const saveAllocations = async () => {
@@ -541,15 +697,26 @@ export default function SpreadsheetPage() {
       const response = await fetch(`/api/sessions/${params.sessionId}/allocations`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ allocations: allocationsToSave })
+        body: JSON.stringify({ allocations: allocationsToSave, cascade: cascadeMode })
       })
 
       if (response.ok) {
+        await loadValidation()
         alert('保存しました')
       } else {
         const error = await response.json()
         console.error('Save error:', error)
-        alert('保存に失敗しました')
+        if (error.error === 'Inconsistent allocations') {
+          alert(`保存に失敗しました: 金額・数量が割合と一致しない配分が${error.details.length}件あります`)
+        } else if (error.error === 'Locked amounts cannot change') {
+          alert(`保存に失敗しました: ロックされた金額が変更されています（${error.details.length}件）。ロックを解除して保存してから変更してください`)
+        } else if (error.error === 'Locked allocations exceed their parent') {
+          alert(`保存に失敗しました:\n${error.details.map((issue: AllocationIssue) => issue.message).join('\n')}`)
+        } else if (error.error === 'Period is closed') {
+          alert(`保存に失敗しました: 締められた期間の配分は変更できません（${error.periods.map((p: string | null) => p ?? 'デフォルト').join(', ')}）`)
+        } else {
+          alert('保存に失敗しました')
+        }
       }
     } catch (error) {
       console.error('Error saving allocations:', error)
@@ -559,6 +726,240 @@ export default function SpreadsheetPage() {
     }
   }
 
+  const togglePeriodStatus = async (period: string | null) => {
+    const closing = !closedPeriods.has(period)
+    const label = period === null ? 'デフォルト' : period
+
+    if (!confirm(closing
+      ? `期間「${label}」を締めますか？締めた期間の予算と配分は変更できなくなります。`
+      : `期間「${label}」の締めを解除しますか？`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/sessions/${params.sessionId}/periods/${encodeURIComponent(period === null ? 'null' : period)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: closing ? 'closed' : 'open' })
+      })
+
+      if (response.ok) {
+        await loadData()
+      } else {
+        const error = await response.json()
+        alert(`期間の状態の変更に失敗しました: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error updating period status:', error)
+      alert('期間の状態の変更に失敗しました')
+    }
+  }
+
+  const loadValidation = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${params.sessionId}/validation`)
+      if (response.ok) {
+        setValidation(await response.json())
+      }
+    } catch (error) {
+      console.error('Error loading validation:', error)
+    }
+  }
+
+  // 修正リストから該当ノードまで展開してハイライト
+  const revealPath = (path: string) => {
+    const parts = path.split('/')
+    const newExpanded = new Set(expandedGroups)
+    for (let i = 1; i < parts.length; i++) {
+      newExpanded.add(parts.slice(0, i).join('/'))
+    }
+    setExpandedGroups(newExpanded)
+    setFocusedPath(path)
+  }
+
+  // 全階層（L1〜SKU）を一括で自動配分
+  const autoAllocateTree = async () => {
+    if (!confirm(`期間「${autoAllocatePeriod === null ? 'デフォルト' : autoAllocatePeriod}」を自動配分しますか？未保存の変更は破棄されます。`)) {
+      return
+    }
+
+    setLoadingOperations(prev => ({ ...prev, autoAllocate: true }))
+    try {
+      const response = await fetch(`/api/sessions/${params.sessionId}/allocations/auto`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          mode: 'tree',
+          period: autoAllocatePeriod,
+          strategy: autoAllocateStrategy,
+          onlyUnallocated: autoAllocateOnlyUnallocated
+        })
+      })
+
+      if (response.ok) {
+        setShowAutoAllocateModal(false)
+        await loadData()
+        alert('自動配分が完了しました')
+      } else {
+        const error = await response.json()
+        alert(`自動配分に失敗しました: ${error.error}`)
+      }
+    } catch (error) {
+      console.error('Error auto-allocating:', error)
+      alert('自動配分に失敗しました')
+    } finally {
+      setLoadingOperations(prev => ({ ...prev, autoAllocate: false }))
+    }
+  }
+
+  // 目標数量から必要な予算・割合を逆算（applyがfalseの間は試算のみ）
+  const runGoalSeek = async (apply: boolean) => {
+    const targetQuantity = parseInt(goalSeekTarget)
+    if (!targetQuantity || targetQuantity <= 0) {
+      alert('目標数量を入力してください')
+      return
+    }
+
+    if (goalSeekSolveFor === 'percentage' && !goalSeekPath) {
+      alert('割合を逆算する場合は対象の階層を指定してください')
+      return
+    }
+
+    if (apply && !confirm('試算結果を適用しますか？未保存の変更は破棄されます。')) {
+      return
+    }
+
+    setLoadingOperations(prev => ({ ...prev, goalSeek: true }))
+    try {
+      const response = await fetch(`/api/sessions/${params.sessionId}/goal-seek`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          period: goalSeekPeriod,
+          targetQuantity,
+          hierarchyPath: goalSeekPath || null,
+          solveFor: goalSeekSolveFor,
+          apply
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert(`目標数量の逆算に失敗しました: ${result.error}`)
+        return
+      }
+
+      if (apply) {
+        setShowGoalSeekModal(false)
+        setGoalSeekPreview(null)
+        await loadData()
+        await loadValidation()
+        alert('試算結果を適用しました')
+      } else {
+        setGoalSeekPreview(result)
+      }
+    } catch (error) {
+      console.error('Error running goal seek:', error)
+      alert('目標数量の逆算に失敗しました')
+    } finally {
+      setLoadingOperations(prev => ({ ...prev, goalSeek: false }))
+    }
+  }
+
+  const openSeasonalityModal = async () => {
+    const saved = session?.seasonality
+    const periods = availablePeriods.filter((period): period is string => period !== null)
+    const currentTotal = (session?.periodBudgets || [])
+      .filter(pb => pb.period !== null)
+      .reduce((sum, pb) => sum + parseInt(pb.budget), 0)
+
+    setSeasonalityBudget(String(saved?.annualBudget ?? (currentTotal || '')))
+    setSeasonalityProfile(saved ? 'saved' : 'flat')
+    setSeasonalityPeriods(saved
+      ? saved.weights.map(w => `${w.period},${w.weight}`).join('\n')
+      : periods.join('\n'))
+    setSeasonalitySourceId(saved?.sourceSessionId ?? '')
+    setShowSeasonalityModal(true)
+
+    try {
+      const response = await fetch(`/api/categories/${params.categoryId}/sessions`)
+      if (response.ok) {
+        const sessions: Array<{ id: string; name: string }> = await response.json()
+        setSourceSessions(sessions.filter(s => s.id !== params.sessionId))
+      }
+    } catch (error) {
+      console.error('Error fetching sessions:', error)
+    }
+  }
+
+  // 年間予算を季節指数で各期間に配分（期間がなければ作成）
+  const applySeasonality = async () => {
+    const annualBudget = parseInt(seasonalityBudget)
+    if (!annualBudget || annualBudget <= 0) {
+      alert('年間予算を入力してください')
+      return
+    }
+
+    // One period per line: "name" or "name,weight"
+    const periods = seasonalityPeriods
+      .split('\n')
+      .map(line => line.trim())
+      .filter(line => line !== '')
+      .map(line => {
+        const [period, weight] = line.split(',').map(part => part.trim())
+        return weight === undefined || weight === '' ? { period } : { period, weight: parseFloat(weight) }
+      })
+
+    if (seasonalityProfile !== 'saved' && periods.length === 0) {
+      alert('期間を入力してください')
+      return
+    }
+
+    if (periods.some(p => 'weight' in p && (p.weight === undefined || isNaN(p.weight) || p.weight < 0))) {
+      alert('ウェイトは0以上の数値で入力してください')
+      return
+    }
+
+    if (!confirm('期間予算を更新し、配分額を再計算しますか？未保存の変更は破棄されます。')) {
+      return
+    }
+
+    setLoadingOperations(prev => ({ ...prev, seasonality: true }))
+    try {
+      const response = await fetch(`/api/sessions/${params.sessionId}/seasonality`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(seasonalityProfile === 'saved'
+          ? { annualBudget }
+          : {
+              annualBudget,
+              profile: seasonalityProfile,
+              periods,
+              sourceSessionId: seasonalityProfile === 'previous_session' ? seasonalitySourceId : undefined
+            })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        alert(`年間予算の配分に失敗しました: ${result.error}`)
+        return
+      }
+
+      const created = result.periods.filter((p: { created: boolean }) => p.created).length
+      setShowSeasonalityModal(false)
+      await loadData()
+      await loadValidation()
+      alert(`年間予算を${result.periods.length}期間に配分しました（新規 ${created}期間）`)
+    } catch (error) {
+      console.error('Error applying seasonality:', error)
+      alert('年間予算の配分に失敗しました')
+    } finally {
+      setLoadingOperations(prev => ({ ...prev, seasonality: false }))
+    }
+  }
+
   // Budget edit function removed - use period management instead
 
   const deleteSession = async () => {
@@ -584,6 +985,27 @@ export default function SpreadsheetPage() {
     }
   }
 
+  // 削除される内容を先に確認してからモーダルを開く
+  const openDeleteCategoryModal = async () => {
+    setDeleteConfirmText('')
+    setForceDeleteCategory(false)
+    setCategoryDeletion(null)
+    setShowDeleteCategoryModal(true)
+
+    try {
+      const response = await fetch(`/api/categories/${params.categoryId}?dryRun=true`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        const { deletable, plan } = await response.json()
+        setCategoryDeletion({ deletable, plan })
+      }
+    } catch (error) {
+      console.error('Error loading category deletion plan:', error)
+    }
+  }
+
   const deleteCategory = async () => {
     if (deleteConfirmText !== '削除') {
       alert('「削除」と入力してください')
@@ -591,13 +1013,15 @@ export default function SpreadsheetPage() {
     }
 
     try {
-      const response = await fetch(`/api/categories/${params.categoryId}`, {
+      const response = await fetch(`/api/categories/${params.categoryId}${forceDeleteCategory ? '?force=true' : ''}`, {
         method: 'DELETE'
       })
 
       if (response.ok) {
         alert('カテゴリを削除しました')
         router.push('/dashboard')
+      } else if (response.status === 409) {
+        alert('確定済みのセッションを含むカテゴリは削除できません')
       } else {
         alert('カテゴリの削除に失敗しました')
       }
@@ -608,13 +1032,36 @@ export default function SpreadsheetPage() {
   }
 
   // Period management functions
+  const loadPeriodModalDetails = (periodBudget?: PeriodBudget) => {
+    setPeriodModalStartDate(periodBudget?.startDate ? toDateKey(periodBudget.startDate) : '')
+    setPeriodModalEndDate(periodBudget?.endDate ? toDateKey(periodBudget.endDate) : '')
+    setPeriodModalGranularity(periodBudget?.granularity ?? '')
+    setPeriodModalFiscalYear(periodBudget?.fiscalYear ? String(periodBudget.fiscalYear) : '')
+  }
+
+  const getPeriodModalDetails = () => ({
+    startDate: periodModalStartDate || null,
+    endDate: periodModalEndDate || null,
+    granularity: periodModalGranularity || null,
+    fiscalYear: periodModalFiscalYear ? parseInt(periodModalFiscalYear) : null
+  })
+
   const addPeriod = async () => {
     if (!periodModalValue || periodModalValue.trim() === '') {
       alert('期間名を入力してください')
       return
     }
 
-    if (!periodModalBudget || parseInt(periodModalBudget) <= 0) {
+    // With a copy source, the growth factor can derive the budget from the source period's budget
+    const useGrowthFactor = periodModalCopyFrom !== null && periodModalGrowthFactor !== ''
+    const growthFactor = parseFloat(periodModalGrowthFactor)
+
+    if (useGrowthFactor && (isNaN(growthFactor) || growthFactor <= 0)) {
+      alert('有効な成長率を入力してください')
+      return
+    }
+
+    if (!useGrowthFactor && (!periodModalBudget || parseInt(periodModalBudget) <= 0)) {
       alert('有効な予算額を入力してください')
       return
     }
@@ -625,20 +1072,28 @@ export default function SpreadsheetPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           period: periodModalValue.trim(),
-          budget: parseInt(periodModalBudget),
-          copyFrom: periodModalCopyFrom
+          ...(useGrowthFactor ? { growthFactor } : { budget: parseInt(periodModalBudget) }),
+          copyFrom: periodModalCopyFrom,
+          ...getPeriodModalDetails()
         })
       })
 
       if (response.ok) {
+        const result = await response.json()
         // Close modal first
         setShowPeriodModal(false)
         setPeriodModalValue('')
         setPeriodModalBudget('')
         setPeriodModalCopyFrom(null)
+        setPeriodModalGrowthFactor('')
         // Reload data and wait for completion
         await loadData()
-        alert('期間を追加しました')
+
+        const notes = [
+          result.droppedPaths?.length > 0 && `存在しない階層のためコピーしなかった配分: ${result.droppedPaths.length}件`,
+          result.unallocatedPaths?.length > 0 && `コピー元に配分がなかった階層: ${result.unallocatedPaths.length}件`
+        ].filter(Boolean)
+        alert(['期間を追加しました', ...notes].join('\n'))
       } else {
         const error = await response.json()
         alert(`期間の追加に失敗しました: ${error.error}`)
@@ -667,19 +1122,27 @@ export default function SpreadsheetPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           newPeriod: periodModalNewValue.trim(),
-          budget: parseInt(periodModalBudget)
+          budget: parseInt(periodModalBudget),
+          keepAmounts: periodModalKeepAmounts,
+          ...getPeriodModalDetails()
         })
       })
 
       if (response.ok) {
+        const result = await response.json()
         // Close modal first
         setShowPeriodModal(false)
         setPeriodModalValue('')
         setPeriodModalNewValue('')
         setPeriodModalBudget('')
+        setPeriodModalKeepAmounts(false)
         // Reload data and wait for completion
         await loadData()
-        alert('期間名と予算を変更しました')
+        alert(result.budgetBefore === result.budgetAfter
+          ? '期間名を変更しました'
+          : `期間名と予算を変更しました\n` +
+            `配分合計: ¥${result.rescale.totalBefore.toLocaleString()} → ¥${result.rescale.totalAfter.toLocaleString()}\n` +
+            `変更された配分: ${result.rescale.changed}件`)
       } else {
         const error = await response.json()
         alert(`期間名の変更に失敗しました: ${error.error}`)
@@ -729,7 +1192,7 @@ export default function SpreadsheetPage() {
   }
 
   const exportToCSV = async () => {
-    if (!session || skuData.length === 0) {
+    if (!session || !allocationContext || skuData.length === 0) {
       alert('エクスポートするデータがありません')
       return
     }
@@ -742,17 +1205,19 @@ export default function SpreadsheetPage() {
         alert('配分データの取得に失敗しました')
         return
       }
-      const allAllocations = await allocRes.json()
+      const allAllocations: Allocation[] = await allocRes.json()
 
       // 階層カラム名を取得
       const hierarchyColumns = session.hierarchyDefinitions.map(def => def.columnName)
 
-      // Sort periods: null (default) first, then alphabetically
-      const sortedPeriods = [...availablePeriods].sort((a, b) => {
-        if (a === null) return -1
-        if (b === null) return 1
-        return a.localeCompare(b)
-      })
+      // Periods arrive in chronological order from the API
+      const sortedPeriods = availablePeriods
+
+      // SKUごとの金額は保存済みの配分額から算出（期間予算と合計が一致し、ロック・積み上げの金額も反映）
+      const allocationValues = allAllocations.map(toAllocationValues)
+      const skuAmountsByPeriod = new Map(
+        sortedPeriods.map(period => [period, calculateSkuAmounts(allocationContext, allocationValues, period)])
+      )
 
       // CSVヘッダーを作成（期間ごとに列を追加）
       const periodHeaders = sortedPeriods.map(p =>
@@ -771,8 +1236,7 @@ export default function SpreadsheetPage() {
         })
 
         // SKUレベルのパスを構築
-        const parentPath = buildHierarchyPath(sku, session.hierarchyDefinitions, session.hierarchyDefinitions.length)
-        const skuPath = parentPath ? `${parentPath}/${sku.skuCode}` : sku.skuCode
+        const skuPath = buildSkuPath(sku, session.hierarchyDefinitions)
 
         // 各期間ごとの累積割合を計算
         const periodPercentages: string[] = []
@@ -789,6 +1253,7 @@ export default function SpreadsheetPage() {
           const pathParts = skuPath.split('/')
           let cumulativePercentage = 1.0 // 100%から開始
           let hasAllocation = false
+          let allocatedUnits: number | undefined
 
           // 各階層レベルの割合を掛け算（SKUレベルは除く、階層レベルのみ）
           const hierarchyLevels = pathParts.length - 1 // 最後はSKUなので除く
@@ -800,6 +1265,8 @@ export default function SpreadsheetPage() {
               // 配分レコードが存在する場合は、その割合を掛ける（0%でも）
               hasAllocation = true
               cumulativePercentage *= (Number(levelAllocation.percentage) / 100)
+              // 最も深い配分済み階層で割り振られたこのSKUの数量
+              allocatedUnits = levelAllocation.skuQuantities?.[sku.skuCode] ?? allocatedUnits
 
               // 0%の場合は早期終了（これより下の階層を見ても結果は0%のまま）
               if (levelAllocation.percentage === 0) {
@@ -814,12 +1281,10 @@ export default function SpreadsheetPage() {
             const finalPercentage = cumulativePercentage * 100
             periodPercentages.push(finalPercentage.toFixed(4))
 
-            // 合計金額と数量を計算 - use period-specific budget
-            const periodBudget = session.periodBudgets.find(pb => pb.period === period)
-            const budgetAmount = periodBudget ? parseInt(periodBudget.budget) : 0
-            const calculatedAmount = Math.floor(budgetAmount * cumulativePercentage)
+            // 合計金額と数量を計算
+            const calculatedAmount = skuAmountsByPeriod.get(period)?.[sku.skuCode] ?? 0
             totalAmount += calculatedAmount
-            totalQuantity += sku.unitPrice > 0 ? Math.floor(calculatedAmount / sku.unitPrice) : 0
+            totalQuantity += allocatedUnits ?? (sku.unitPrice > 0 ? Math.floor(calculatedAmount / sku.unitPrice) : 0)
           } else {
             periodPercentages.push('')
           }
@@ -871,67 +1336,192 @@ export default function SpreadsheetPage() {
     }
   }
 
-  const handleCSVUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // ファイルはそのまま本文として送り、サーバー側で読み込みながら解析する
+  const postCSV = (file: File, mapping: ImportColumnMapping | null, options: Record<string, string> = {}) => {
+    const query = new URLSearchParams({
+      validation: importValidationMode,
+      encoding: csvEncoding,
+      normalize: String(normalizeCsv),
+      ...(mapping && { mapping: JSON.stringify(mapping) }),
+      ...options
+    })
+
+    return fetch(`/api/sessions/${params.sessionId}/import?${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/csv' },
+      body: file
+    })
+  }
+
+  // CSVはサーバー側で解析。まず先頭行を読み込んで文字コードとカラムの割り当てを確認する
+  const loadImportPreview = async (file: File, encoding: CsvEncoding | 'auto', normalize: boolean) => {
+    setLoadingOperations(prev => ({ ...prev, csvImport: true }))
+    setImportReport(null)
+
+    try {
+      const response = await postCSV(file, null, { mode: 'preview', encoding, normalize: String(normalize) })
+      const result = await response.json()
+
+      if (response.ok) {
+        const preview: ImportPreview = result
+        setColumnMapping(prev => ({
+          file,
+          preview,
+          // 文字コードを変えて読み直した場合も、カラムが揃っていれば選んだ割り当てを残す
+          mapping: prev?.file === file && findMissingColumns(prev.mapping, preview.columns).length === 0
+            ? prev.mapping
+            : preview.mapping
+        }))
+      } else {
+        alert(`CSVの読み込みに失敗しました: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error previewing CSV:', error)
+      alert('CSVの読み込みに失敗しました')
+    } finally {
+      setLoadingOperations(prev => ({ ...prev, csvImport: false }))
+    }
+  }
+
+  const handleCSVUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (!file) return
 
+    // 同じファイルを修正して選び直せるようにする
+    e.target.value = ''
+    setSaveColumnMapping(false)
+    await loadImportPreview(file, csvEncoding, normalizeCsv)
+  }
+
+  const changeCsvReadOptions = (encoding: CsvEncoding | 'auto', normalize: boolean) => {
+    setCsvEncoding(encoding)
+    setNormalizeCsv(normalize)
+    if (columnMapping) {
+      loadImportPreview(columnMapping.file, encoding, normalize)
+    }
+  }
+
+  const updateColumnMapping = (changes: Partial<ImportColumnMapping>) => {
+    setColumnMapping(prev => {
+      if (!prev) return prev
+      const mapping = { ...prev.mapping, ...changes }
+      // SKUの項目に割り当てたカラムは階層から外す
+      const assigned = [mapping.skuCode, mapping.unitPrice, mapping.caseSize, mapping.minOrderQty]
+      return { ...prev, mapping: { ...mapping, hierarchy: mapping.hierarchy.filter(col => !assigned.includes(col)) } }
+    })
+  }
+
+  const toggleHierarchyColumn = (column: string) => {
+    if (!columnMapping) return
+    const { hierarchy } = columnMapping.mapping
+    updateColumnMapping({
+      hierarchy: hierarchy.includes(column) ? hierarchy.filter(col => col !== column) : [...hierarchy, column]
+    })
+  }
+
+  const moveHierarchyColumn = (index: number, offset: -1 | 1) => {
+    if (!columnMapping) return
+    const hierarchy = [...columnMapping.mapping.hierarchy]
+    const target = index + offset
+    if (target < 0 || target >= hierarchy.length) return
+    hierarchy.splice(target, 0, ...hierarchy.splice(index, 1))
+    updateColumnMapping({ hierarchy })
+  }
+
+  // 選んだ割り当てで取り込む。取り込み済みの場合は差分を確認してから再取り込み
+  const importWithMapping = async () => {
+    if (!columnMapping) return
+    const { file, mapping } = columnMapping
+
+    const mappedColumns = getMappedColumns(mapping)
+    if (new Set(mappedColumns).size !== mappedColumns.length) {
+      alert('同じカラムを複数の項目に割り当てることはできません')
+      return
+    }
+
     setLoadingOperations(prev => ({ ...prev, csvImport: true }))
+    setImportReport(null)
 
-    Papa.parse(file, {
-      header: true,
-      complete: async (results) => {
-        try {
-          const data = results.data as any[]
-          if (data.length === 0) {
-            setLoadingOperations(prev => ({ ...prev, csvImport: false }))
-            return
-          }
+    try {
+      if (saveColumnMapping) {
+        const response = await fetch(`/api/categories/${params.categoryId}/import-mapping`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ importMapping: mapping })
+        })
+        if (!response.ok) {
+          const result = await response.json()
+          alert(`カラムの割り当ての保存に失敗しました: ${result.error}`)
+          return
+        }
+      }
 
-          // Extract hierarchy columns (all columns except sku_code and unitprice)
-          const allColumns = Object.keys(data[0])
-          const hierarchyColumns = allColumns.filter(
-            col => col !== 'sku_code' && col !== 'unitprice'
-          )
+      if (skuData.length > 0) {
+        const response = await postCSV(file, mapping, { mode: 'reimport', dryRun: 'true' })
+        const result = await response.json()
+        setImportReport(result.report ?? null)
 
-          // Transform data
-          const skuData = data
-            .filter(row => row.sku_code && row.unitprice)
-            .map(row => {
-              const hierarchyValues: Record<string, string> = {}
-              hierarchyColumns.forEach(col => {
-                if (row[col]) {
-                  hierarchyValues[col] = row[col]
-                }
-              })
-
-              return {
-                skuCode: row.sku_code,
-                unitPrice: parseInt(row.unitprice),
-                hierarchyValues
-              }
-            })
+        if (response.ok) {
+          setColumnMapping(null)
+          setReimportPreview({ file, mapping, diff: result.diff, skipped: result.skipped })
+        } else {
+          alert(`CSVの差分の確認に失敗しました: ${result.error}`)
+        }
+        return
+      }
 
-          const response = await fetch(`/api/sessions/${params.sessionId}/import`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ skuData, hierarchyColumns })
-          })
+      const response = await postCSV(file, mapping)
+      const result = await response.json()
+      setImportReport(result.report ?? null)
 
-          if (response.ok) {
-            setShowUploadModal(false)
-            await loadData()
-            alert('CSVの取り込みが完了しました')
-          } else {
-            alert('CSV取り込みに失敗しました')
-          }
-        } catch (error) {
-          console.error('Error uploading CSV:', error)
-          alert('CSV取り込みに失敗しました')
-        } finally {
-          setLoadingOperations(prev => ({ ...prev, csvImport: false }))
+      if (response.ok) {
+        const { imported, skipped, report }: SkuImportResult = result
+        setColumnMapping(null)
+        await loadData()
+        // 警告・除外した行があれば一覧を確認できるようにモーダルを残す
+        if (report.errorCount === 0 && report.warningCount === 0) {
+          setShowUploadModal(false)
         }
+        alert(`CSVの取り込みが完了しました（${imported}件${skipped > 0 ? `、エラーのある${skipped}行を除外` : ''}${report.warningCount > 0 ? `、警告${report.warningCount}件` : ''}）`)
+      } else {
+        alert(`CSV取り込みに失敗しました: ${result.error}`)
       }
-    })
+    } catch (error) {
+      console.error('Error uploading CSV:', error)
+      alert('CSV取り込みに失敗しました')
+    } finally {
+      setLoadingOperations(prev => ({ ...prev, csvImport: false }))
+    }
+  }
+
+  const applyReimport = async () => {
+    if (!reimportPreview) return
+
+    setLoadingOperations(prev => ({ ...prev, csvImport: true }))
+
+    try {
+      const response = await postCSV(reimportPreview.file, reimportPreview.mapping, { mode: 'reimport' })
+      const result = await response.json()
+
+      if (response.ok) {
+        setImportReport(null)
+        const diff: SkuDataDiff = result.diff
+        setReviewPaths(new Set(diff.reviewPaths))
+        setReimportPreview(null)
+        setShowUploadModal(false)
+        await loadData()
+        alert(`CSVを再取り込みしました（追加${diff.added.length}件・削除${diff.removed.length}件・単価変更${diff.priceChanged.length}件・階層移動${diff.moved.length}件）${
+          diff.reviewPaths.length > 0 ? `\n配分の見直しが必要な階層が${diff.reviewPaths.length}件あります` : ''
+        }`)
+      } else {
+        alert(`CSVの再取り込みに失敗しました: ${result.error}`)
+      }
+    } catch (error) {
+      console.error('Error re-importing CSV:', error)
+      alert('CSVの再取り込みに失敗しました')
+    } finally {
+      setLoadingOperations(prev => ({ ...prev, csvImport: false }))
+    }
   }
 
   const filterNodes = (nodes: HierarchyNode[], query: string): HierarchyNode[] => {
@@ -1061,7 +1651,7 @@ export default function SpreadsheetPage() {
       return (
         <Fragment key={node.path}>
           <tr
-            className={`border-b border-gray-200 ${colors.bg} ${colors.hover} transition-colors duration-150 ${node.children.length > 0 ? 'cursor-pointer' : ''}`}
+            className={`border-b border-gray-200 ${colors.bg} ${colors.hover} transition-colors duration-150 ${node.children.length > 0 ? 'cursor-pointer' : ''} ${focusedPath === node.path ? 'ring-2 ring-inset ring-red-400' : ''}`}
             onClick={handleRowClick}
           >
             {/* 階層名 */}
@@ -1081,6 +1671,11 @@ export default function SpreadsheetPage() {
                 )}
                 {node.children.length === 0 && <span className="w-4" />}
                 <span className="text-gray-900 font-medium">{node.name}</span>
+                {reviewPaths.has(node.path) && (
+                  <span title="再取り込みでSKUが変わりました。配分を見直してください">
+                    <AlertTriangle size={14} className="text-yellow-600" />
+                  </span>
+                )}
               </div>
             </td>
 
@@ -1099,10 +1694,51 @@ export default function SpreadsheetPage() {
               const periodData = node.periodData.get(period)
               const percentage = periodData?.percentage || 0
               const amount = periodData?.amount || 0
+              const isLocked = periodData?.locked ?? false
+              const isReadOnly = !editablePeriods.has(period)
+              const orderVariance = hasOrderConstraints && allocationContext && periodData
+                ? amount - calculateUnitCost(allocationContext, { hierarchyPath: node.path, level: node.level, period, ...periodData })
+                : 0
+
+              // 積み上げモード: SKUは数量を入力し、上位階層は集計結果を表示するだけ
+              if (isBottomUp) {
+                return (
+                  <Fragment key={`${period === null ? 'null' : period}`}>
+                    <td className="text-right py-2 px-4">
+                      {node.unitPrice !== undefined ? (
+                        <div className="flex items-center justify-end gap-1">
+                          <input
+                            type="number"
+                            value={periodData?.quantity || ''}
+                            onChange={(e) => updateSkuQuantity(node.path, period, Math.max(0, parseInt(e.target.value) || 0))}
+                            disabled={isReadOnly}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-right text-gray-900 disabled:bg-gray-100 disabled:text-gray-500"
+                            min="0"
+                            step="1"
+                          />
+                          <span className="text-xs text-gray-500">個</span>
+                        </div>
+                      ) : null}
+                      <div className="text-xs text-gray-500">
+                        {percentage > 0 ? `${percentage.toFixed(2)}%` : ''}
+                      </div>
+                    </td>
+                    <td className="text-right py-2 px-4 text-gray-900">
+                      <div>{amount > 0 ? `¥${amount.toLocaleString()}` : ''}</div>
+                      {node.unitPrice === undefined && (periodData?.quantity ?? 0) > 0 && (
+                        <div className="text-xs text-gray-500" title={formatSkuQuantities(periodData?.skuQuantities)}>
+                          {periodData?.quantity.toLocaleString()}個
+                        </div>
+                      )}
+                    </td>
+                  </Fragment>
+                )
+              }
 
               const siblingsTotal = getSiblingsTotal(node, period)
               const remaining = 100 - siblingsTotal
-              const isOverLimit = siblingsTotal > 100
+              // Exact shares may sum to 100.00000000000001 in floating point
+              const isOverLimit = roundPercentage(siblingsTotal, 6) > 100
               const isEditing = editingAmount?.path === node.path && editingAmount?.period === period
 
               // Amount calculations
@@ -1121,19 +1757,31 @@ export default function SpreadsheetPage() {
                   {/* 割合カラム */}
                   <td className="text-right py-2 px-4">
                     <div className="flex flex-col items-end gap-1">
-                      <input
-                        type="number"
-                        value={percentage || ''}
-                        onChange={(e) => updateAllocation(node.path, period, parseFloat(e.target.value) || 0)}
-                        onFocus={() => setFocusedInput({ path: node.path, period })}
-                        onBlur={() => setFocusedInput(null)}
-                        className={`w-20 px-2 py-1 border rounded text-right text-gray-900 ${
-                          isOverLimit ? 'border-red-500 bg-red-50' : 'border-gray-300'
-                        }`}
-                        min="0"
-                        max="100"
-                        step="0.01"
-                      />
+                      <div className="flex items-center gap-1">
+                        {periodData && !isReadOnly && (
+                          <button
+                            onClick={() => toggleLock(node.path, period)}
+                            title={isLocked ? 'ロック解除' : '金額をロック'}
+                            className={isLocked ? 'text-amber-600 hover:text-amber-700' : 'text-gray-300 hover:text-gray-500'}
+                          >
+                            {isLocked ? <Lock size={12} /> : <Unlock size={12} />}
+                          </button>
+                        )}
+                        <input
+                          type="number"
+                          value={percentage ? roundPercentage(percentage) : ''}
+                          onChange={(e) => updateAllocation(node.path, period, parseFloat(e.target.value) || 0)}
+                          onFocus={() => setFocusedInput({ path: node.path, period })}
+                          onBlur={() => setFocusedInput(null)}
+                          disabled={isLocked || isReadOnly}
+                          className={`w-20 px-2 py-1 border rounded text-right text-gray-900 disabled:bg-gray-100 disabled:text-gray-500 ${
+                            isOverLimit ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                          }`}
+                          min="0"
+                          max="100"
+                          step="0.01"
+                        />
+                      </div>
                       <div className="text-xs">
                         {isOverLimit ? (
                           <span className={`text-red-600 ${isSiblingOfFocused ? 'font-bold text-base' : 'font-medium'}`}>
@@ -1172,14 +1820,31 @@ export default function SpreadsheetPage() {
                         <div
                           onClick={(e) => {
                             e.stopPropagation()
-                            setEditingAmount({ path: node.path, period })
+                            if (!isLocked && !isReadOnly) setEditingAmount({ path: node.path, period })
                           }}
-                          className="flex items-center justify-end gap-1 cursor-pointer hover:bg-blue-50 rounded px-1 py-1 group"
+                          className={`flex items-center justify-end gap-1 rounded px-1 py-1 group ${
+                            isLocked || isReadOnly ? 'cursor-default' : 'cursor-pointer hover:bg-blue-50'
+                          }`}
                         >
                           <span className="text-gray-900">
                             {amount > 0 ? `¥${amount.toLocaleString()}` : ''}
                           </span>
-                          <Edit2 size={12} className="text-gray-400 group-hover:text-blue-600" />
+                          {!isLocked && !isReadOnly && <Edit2 size={12} className="text-gray-400 group-hover:text-blue-600" />}
+                        </div>
+                      )}
+                      {(periodData?.quantity ?? 0) > 0 && (
+                        <div className="text-xs text-gray-500" title={formatSkuQuantities(periodData?.skuQuantities)}>
+                          {periodData?.quantity.toLocaleString()}個
+                        </div>
+                      )}
+                      {orderVariance !== 0 && (
+                        <div
+                          className={`text-xs ${orderVariance < 0 ? 'text-red-600' : 'text-gray-500'}`}
+                          title="ケース入数・最小発注数に丸めた数量の発注額と配分額の差"
+                        >
+                          {orderVariance < 0
+                            ? `発注超過: ¥${(-orderVariance).toLocaleString()}`
+                            : `発注余り: ¥${orderVariance.toLocaleString()}`}
                         </div>
                       )}
                       <div className="text-xs">
@@ -1224,6 +1889,79 @@ export default function SpreadsheetPage() {
 
   const filteredTree = searchQuery ? filterNodes(hierarchyTree, searchQuery) : hierarchyTree
 
+  const importReportPanel = importReport && (importReport.errorCount > 0 || importReport.warningCount > 0) && (
+    <div className="mb-4 text-sm">
+      <p className={`mb-2 ${importReport.valid ? 'text-yellow-700' : 'text-red-600'}`}>
+        {importReport.totalRows}行中{importReport.validRows}行が有効（エラー{importReport.errorCount}件・警告{importReport.warningCount}件）
+        {!importReport.valid && (importReport.mode === 'strict' && importReport.errorCount > 0
+          ? '。厳格モードのため取り込みませんでした'
+          : '。取り込めませんでした')}
+      </p>
+      <div className="max-h-40 overflow-y-auto border border-gray-200 rounded p-2 space-y-1 text-xs">
+        {importReport.issues.map((issue, i) => (
+          <div key={i} className={issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}>
+            {issue.message}
+          </div>
+        ))}
+        {importReport.truncated && <div className="text-gray-500">以降の問題は省略しました</div>}
+      </div>
+    </div>
+  )
+
+  const periodDetailsFields = (
+    <>
+      <div className="mb-4 grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-900 mb-2">開始日（オプション）</label>
+          <input
+            type="date"
+            value={periodModalStartDate}
+            onChange={(e) => setPeriodModalStartDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-900 mb-2">終了日（オプション）</label>
+          <input
+            type="date"
+            value={periodModalEndDate}
+            onChange={(e) => setPeriodModalEndDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+      <div className="mb-4 grid grid-cols-2 gap-2">
+        <div>
+          <label className="block text-sm font-medium text-gray-900 mb-2">期間の種類</label>
+          <select
+            value={periodModalGranularity}
+            onChange={(e) => setPeriodModalGranularity(e.target.value as PeriodGranularity | '')}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+          >
+            <option value="">未設定</option>
+            <option value="month">月</option>
+            <option value="quarter">四半期</option>
+            <option value="half">半期</option>
+            <option value="season">シーズン</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-900 mb-2">会計年度</label>
+          <input
+            type="number"
+            value={periodModalFiscalYear}
+            onChange={(e) => setPeriodModalFiscalYear(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            placeholder="2024"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        日付を設定した期間は開始日順に並び、他の期間と重複できません
+      </p>
+    </>
+  )
+
   return (
     <div className="min-h-screen bg-gray-100">
       <header className="bg-white shadow">
@@ -1236,19 +1974,16 @@ export default function SpreadsheetPage() {
               <div>
                 <div className="text-sm text-gray-600 mb-1 flex items-center gap-2">
                   <span>{category?.name}</span>
-                  {session.category?.userId === authSession?.user?.id && (
+                  {category?.permissions.canDelete && (
                     <button
-                      onClick={() => {
-                        setDeleteConfirmText('')
-                        setShowDeleteCategoryModal(true)
-                      }}
+                      onClick={openDeleteCategoryModal}
                       className="text-xs text-red-600 hover:text-red-800"
                     >
                       [削除]
                     </button>
                   )}
                   <span> &gt; {session.name}</span>
-                  {session.category?.userId === authSession?.user?.id && (
+                  {session.permissions.canDelete && (
                     <button
                       onClick={() => {
                         setDeleteConfirmText('')
@@ -1264,7 +1999,7 @@ export default function SpreadsheetPage() {
 
                 <div className="flex items-center gap-4">
                   {/* Period Management */}
-                  {session.category?.userId === authSession?.user?.id && (
+                  {canEdit && (
                     <div className="flex items-center gap-2 border-l pl-4">
                       <Calendar size={16} className="text-gray-600" />
                       <span className="text-sm text-gray-600">期間管理:</span>
@@ -1275,6 +2010,8 @@ export default function SpreadsheetPage() {
                             setPeriodModalValue('')
                             setPeriodModalBudget('')
                             setPeriodModalCopyFrom(availablePeriods[0] || null)
+                            setPeriodModalGrowthFactor('')
+                            loadPeriodModalDetails()
                             setShowPeriodModal(true)
                           }}
                           className="p-1 text-green-600 hover:bg-green-50 rounded"
@@ -1291,6 +2028,8 @@ export default function SpreadsheetPage() {
                             setPeriodModalMode('rename')
                             setPeriodModalValue(availablePeriods[0])
                             setPeriodModalNewValue(availablePeriods[0] || '')
+                            setPeriodModalKeepAmounts(false)
+                            loadPeriodModalDetails(session?.periodBudgets.find(pb => pb.period === availablePeriods[0]))
                             setShowPeriodModal(true)
                           }}
                           className="p-1 text-blue-600 hover:bg-blue-50 rounded"
@@ -1313,10 +2052,77 @@ export default function SpreadsheetPage() {
                         >
                           <Trash2 size={16} />
                         </button>
+                        <button
+                          onClick={openSeasonalityModal}
+                          disabled={loadingOperations.seasonality}
+                          className="p-1 text-purple-600 hover:bg-purple-50 rounded disabled:opacity-50"
+                          title="年間予算を季節指数で配分"
+                        >
+                          <TrendingUp size={16} />
+                        </button>
                       </div>
                     </div>
                   )}
 
+                  {canEdit && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600">計画方式:</span>
+                      <select
+                        value={session.planningMode}
+                        onChange={async (e) => {
+                          const newPlanningMode = e.target.value as PlanningMode
+                          const message = newPlanningMode === 'bottom_up'
+                            ? '積み上げ方式に切り替えますか？金額はSKUの数量×単価から再計算されます（SKUごとの数量がない場合は現在の配分の数量を使います）。'
+                            : 'トップダウン方式に切り替えますか？金額は期間予算と割合から再計算されます。'
+                          if (!confirm(message)) return
+                          await updateSessionSettings({ planningMode: newPlanningMode }, '計画方式の変更に失敗しました')
+                        }}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                        title="予算から配分するか、SKUの数量から積み上げるか"
+                      >
+                        <option value="top_down">トップダウン</option>
+                        <option value="bottom_up">積み上げ</option>
+                      </select>
+                    </div>
+                  )}
+
+                  {canEdit && !isBottomUp && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600">端数処理:</span>
+                      <select
+                        value={session.roundingMode}
+                        onChange={(e) => updateSessionSettings(
+                          { roundingMode: e.target.value as RoundingMode },
+                          '端数処理の変更に失敗しました'
+                        )}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                        title="子階層の金額を切り捨てた際の端数の配分方法"
+                      >
+                        <option value="largest_remainder">最大剰余法</option>
+                        <option value="largest_share">最大配分に加算</option>
+                        <option value="floor">切り捨てのみ</option>
+                      </select>
+                    </div>
+                  )}
+
+                  {canEdit && !isBottomUp && (
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm text-gray-600">数量配分:</span>
+                      <select
+                        value={session.quantityDistribution}
+                        onChange={(e) => updateSessionSettings(
+                          { quantityDistribution: e.target.value as QuantityDistribution },
+                          '数量配分の変更に失敗しました'
+                        )}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                        title="階層の配分額を各SKUの数量に割り振る方法"
+                      >
+                        <option value="price_weighted">金額均等（単価で換算）</option>
+                        <option value="equal_units">数量均等</option>
+                      </select>
+                    </div>
+                  )}
+
                   <div className="text-sm text-gray-600">
                     作成者: {session.category?.user?.name || session.category?.user?.email || '不明'}
                   </div>
@@ -1336,7 +2142,14 @@ export default function SpreadsheetPage() {
                               loadData()
                               alert('ステータスを変更しました')
                             } else {
-                              alert('ステータスの変更に失敗しました')
+                              const error = await response.json()
+                              if (error.validation) {
+                                setValidation(error.validation)
+                                setShowFixList(true)
+                                alert(`${error.error}（エラー${error.validation.errorCount}件）`)
+                              } else {
+                                alert('ステータスの変更に失敗しました')
+                              }
                             }
                           } catch (error) {
                             console.error('Error updating status:', error)
@@ -1360,13 +2173,17 @@ export default function SpreadsheetPage() {
             </div>
             <div className="flex gap-2">
               <button
-                onClick={() => setShowUploadModal(true)}
-                disabled={loadingOperations.csvImport || skuData.length > 0}
+                onClick={() => {
+                  setReimportPreview(null)
+                  setImportReport(null)
+                  setShowUploadModal(true)
+                }}
+                disabled={loadingOperations.csvImport || !canEdit}
                 className="btn btn-primary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-                title={skuData.length > 0 ? 'SKUデータは既に取り込まれています' : 'CSVファイルからSKUデータを取り込む'}
+                title={skuData.length > 0 ? '最新のCSVで更新し、変わっていない階層の配分を維持する' : 'CSVファイルからSKUデータを取り込む'}
               >
                 <Upload size={20} />
-                {skuData.length > 0 ? 'CSV取り込み済み' : 'CSV取り込み'}
+                {skuData.length > 0 ? 'CSV再取り込み' : 'CSV取り込み'}
               </button>
               {skuData.length > 0 && (
                 <button
@@ -1382,7 +2199,34 @@ export default function SpreadsheetPage() {
                   {loadingOperations.csvExport ? '出力中...' : 'CSV出力'}
                 </button>
               )}
-              {session.category?.userId === authSession?.user?.id && (
+              {canEdit && !isBottomUp && skuData.length > 0 && availablePeriods.length > 0 && (
+                <button
+                  onClick={() => {
+                    setAutoAllocatePeriod(availablePeriods[0])
+                    setShowAutoAllocateModal(true)
+                  }}
+                  disabled={loadingOperations.autoAllocate}
+                  className="btn btn-secondary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Wand2 size={20} />
+                  自動配分
+                </button>
+              )}
+              {!isBottomUp && skuData.length > 0 && availablePeriods.length > 0 && (
+                <button
+                  onClick={() => {
+                    setGoalSeekPeriod(availablePeriods[0])
+                    setGoalSeekPreview(null)
+                    setShowGoalSeekModal(true)
+                  }}
+                  disabled={loadingOperations.goalSeek}
+                  className="btn btn-secondary flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Target size={20} />
+                  目標数量
+                </button>
+              )}
+              {canEdit && (
                 <button
                   onClick={saveAllocations}
                   disabled={loadingOperations.save}
@@ -1415,6 +2259,22 @@ export default function SpreadsheetPage() {
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
+                <label className="flex items-center gap-1 text-sm text-gray-700" title="割合・金額の変更時に下位階層の金額と数量を再計算します">
+                  <input
+                    type="checkbox"
+                    checked={cascadeMode}
+                    onChange={(e) => setCascadeMode(e.target.checked)}
+                  />
+                  下位階層に連動
+                </label>
+                <label className="flex items-center gap-1 text-sm text-gray-700" title="割合・金額の変更時に残りをロックされていない兄弟ノードへ現在の比率で按分します">
+                  <input
+                    type="checkbox"
+                    checked={rebalanceMode}
+                    onChange={(e) => setRebalanceMode(e.target.checked)}
+                  />
+                  兄弟を自動調整
+                </label>
                 <button
                   onClick={expandAll}
                   className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
@@ -1531,6 +2391,46 @@ export default function SpreadsheetPage() {
                 </div>
               </div>
             )}
+
+            {/* 修正リスト */}
+            {validation && (validation.errorCount > 0 || validation.warningCount > 0) && (
+              <div className="mt-6 border-t pt-4">
+                <button
+                  onClick={() => setShowFixList(!showFixList)}
+                  className="flex items-center gap-2 text-sm font-semibold text-gray-900"
+                >
+                  <AlertTriangle size={16} className={validation.errorCount > 0 ? 'text-red-600' : 'text-yellow-600'} />
+                  <span>修正リスト</span>
+                  <span className="text-red-600">エラー {validation.errorCount}件</span>
+                  <span className="text-yellow-700">警告 {validation.warningCount}件</span>
+                  {showFixList ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                </button>
+                {showFixList && (
+                  <div className="space-y-3 pt-2">
+                    {validation.periods.filter(p => p.issues.length > 0).map(p => (
+                      <div key={p.period === null ? 'null' : p.period}>
+                        <h5 className="text-xs font-semibold text-gray-700 mb-1">{p.period || 'デフォルト'}</h5>
+                        <ul className="space-y-1">
+                          {p.issues.slice(0, 50).map((issue, idx) => (
+                            <li key={idx}>
+                              <button
+                                onClick={() => issue.hierarchyPath && revealPath(issue.hierarchyPath)}
+                                className={`text-xs text-left hover:underline ${issue.severity === 'error' ? 'text-red-700' : 'text-yellow-700'}`}
+                              >
+                                {issue.message}
+                              </button>
+                            </li>
+                          ))}
+                        </ul>
+                        {p.issues.length > 50 && (
+                          <p className="text-xs text-gray-500 mt-1">他 {p.issues.length - 50}件</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
           {/* No periods message */}
@@ -1565,10 +2465,65 @@ export default function SpreadsheetPage() {
                     const periodBudget = session?.periodBudgets.find(pb => pb.period === period)
                     const budgetInMillions = periodBudget ? (parseInt(periodBudget.budget) / 1000000).toFixed(2) : '0.00'
                     const periodLabel = period === null ? 'デフォルト' : period
+                    const periodRange = periodBudget?.startDate && periodBudget.endDate
+                      ? `${toDateKey(periodBudget.startDate)} 〜 ${toDateKey(periodBudget.endDate)}`
+                      : null
+                    const isPeriodClosed = closedPeriods.has(period)
+                    const periodStatusControl = canEdit ? (
+                      <button
+                        onClick={() => togglePeriodStatus(period)}
+                        title={isPeriodClosed ? '締めを解除' : '期間を締める'}
+                        className={`ml-1 ${isPeriodClosed ? 'text-gray-700 hover:text-gray-900' : 'text-gray-300 hover:text-gray-500'}`}
+                      >
+                        {isPeriodClosed ? <Lock size={12} /> : <Unlock size={12} />}
+                      </button>
+                    ) : isPeriodClosed ? (
+                      <Lock size={12} className="ml-1 text-gray-700" />
+                    ) : null
+
+                    if (isBottomUp) {
+                      const total = calculatePeriodTotal(allocations.map(toAllocationValues), period)
+                      const budget = periodBudget ? parseInt(periodBudget.budget) : 0
+                      const difference = total - budget
+
+                      return (
+                        <th key={`${period === null ? 'null' : period}-header`} colSpan={2} className="text-center py-2 px-4 font-semibold text-gray-900 border-r border-gray-300">
+                          <div className="flex items-center justify-center">{periodLabel} ({budgetInMillions}M){periodStatusControl}</div>
+                          {periodRange && <div className="text-xs font-normal text-gray-500">{periodRange}</div>}
+                          {isPeriodClosed && <div className="text-xs font-normal text-gray-500">締め済み（編集不可）</div>}
+                          <div className="text-xs font-normal">
+                            積上: ¥{total.toLocaleString()}
+                            <span className={difference > 0 ? 'text-red-600 ml-1' : 'text-gray-500 ml-1'}>
+                              （差額 {difference > 0 ? '+' : ''}¥{difference.toLocaleString()}）
+                            </span>
+                            {period !== null && difference !== 0 && editablePeriods.has(period) && (
+                              <button
+                                onClick={() => writeBackBudget(period)}
+                                className="ml-2 text-blue-600 hover:underline"
+                              >
+                                予算に反映
+                              </button>
+                            )}
+                          </div>
+                        </th>
+                      )
+                    }
+
+                    const periodVariance = quantityVariance?.periods.find(p => p.period === period)
 
                     return (
                       <th key={`${period === null ? 'null' : period}-header`} colSpan={2} className="text-center py-2 px-4 font-semibold text-gray-900 border-r border-gray-300">
-                        {periodLabel} ({budgetInMillions}M)
+                        <div className="flex items-center justify-center">{periodLabel} ({budgetInMillions}M){periodStatusControl}</div>
+                        {periodRange && <div className="text-xs font-normal text-gray-500">{periodRange}</div>}
+                        {isPeriodClosed && <div className="text-xs font-normal text-gray-500">締め済み（編集不可）</div>}
+                        {periodVariance && periodVariance.cost > 0 && (
+                          <div className="text-xs font-normal">
+                            発注額: ¥{periodVariance.cost.toLocaleString()}
+                            <span className={periodVariance.variance < 0 ? 'text-red-600 ml-1' : 'text-gray-500 ml-1'}>
+                              （{periodVariance.variance < 0 ? '超過' : '余り'} ¥{Math.abs(periodVariance.variance).toLocaleString()}）
+                            </span>
+                          </div>
+                        )}
                       </th>
                     )
                   })}
@@ -1578,7 +2533,7 @@ export default function SpreadsheetPage() {
                   {availablePeriods.map(period => (
                     <Fragment key={`${period === null ? 'null' : period}-subheader`}>
                       <th className="text-right py-2 px-4 font-semibold text-gray-900 border-r border-gray-300" style={{ width: '120px', minWidth: '120px' }}>
-                        %
+                        {isBottomUp ? '数量 / %' : '%'}
                       </th>
                       <th className="text-right py-2 px-4 font-semibold text-gray-900 border-r border-gray-300" style={{ width: '180px', minWidth: '180px' }}>
                         金額
@@ -1652,6 +2607,44 @@ export default function SpreadsheetPage() {
               本当にこのカテゴリを削除しますか？このカテゴリに含まれる全てのセッションとデータも削除されます。
               この操作は元に戻せません。
             </p>
+            {categoryDeletion ? (
+              <div className="mb-4 text-sm text-gray-900">
+                <p className="font-semibold mb-1">削除される内容:</p>
+                <p className="text-gray-600 mb-2">
+                  セッション {categoryDeletion.plan.totals.sessions}件 / 期間 {categoryDeletion.plan.totals.periodBudgets}件 /
+                  SKU {categoryDeletion.plan.totals.skuData}件 / 配分 {categoryDeletion.plan.totals.allocations}件
+                </p>
+                {categoryDeletion.plan.sessions.length > 0 && (
+                  <ul className="max-h-40 overflow-y-auto border border-gray-200 rounded p-2 space-y-1">
+                    {categoryDeletion.plan.sessions.map(s => (
+                      <li key={s.id} className={s.status === 'confirmed' ? 'text-red-600' : ''}>
+                        {s.name}
+                        <span className="text-xs text-gray-500 ml-2">
+                          {s.status === 'confirmed' ? '確定' : s.status === 'archived' ? 'アーカイブ' : '作業中'}・SKU {s.skuData}件・配分 {s.allocations}件
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {!categoryDeletion.deletable && (
+                  <div className="mt-2 text-red-600">
+                    確定済みのセッションが{categoryDeletion.plan.confirmedSessions.length}件あるため削除できません。
+                    {category?.permissions.canForceDelete && (
+                      <label className="flex items-center gap-2 mt-1 text-gray-900">
+                        <input
+                          type="checkbox"
+                          checked={forceDeleteCategory}
+                          onChange={(e) => setForceDeleteCategory(e.target.checked)}
+                        />
+                        確定済みのセッションも含めて削除する（管理者）
+                      </label>
+                    )}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <p className="mb-4 text-sm text-gray-500">削除される内容を確認しています...</p>
+            )}
             <p className="text-gray-900 mb-2 font-semibold">
               削除するには「削除」と入力してください：
             </p>
@@ -1666,7 +2659,7 @@ export default function SpreadsheetPage() {
               <button
                 onClick={deleteCategory}
                 className="btn bg-red-600 text-white hover:bg-red-700 flex-1"
-                disabled={deleteConfirmText !== '削除'}
+                disabled={deleteConfirmText !== '削除' || !categoryDeletion || (!categoryDeletion.deletable && !forceDeleteCategory)}
               >
                 削除
               </button>
@@ -1734,6 +2727,23 @@ export default function SpreadsheetPage() {
                     既存の期間から配分データをコピーして新しい期間を作成できます
                   </p>
                 </div>
+                {periodModalCopyFrom !== null && (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-900 mb-2">成長率（オプション）</label>
+                    <input
+                      type="number"
+                      step="0.01"
+                      value={periodModalGrowthFactor}
+                      onChange={(e) => setPeriodModalGrowthFactor(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="1.05"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      入力した場合はコピー元の予算×成長率を予算額とします（予算額の入力は不要）
+                    </p>
+                  </div>
+                )}
+                {periodDetailsFields}
               </>
             )}
 
@@ -1752,6 +2762,7 @@ export default function SpreadsheetPage() {
                       if (periodBudget) {
                         setPeriodModalBudget(periodBudget.budget)
                       }
+                      loadPeriodModalDetails(periodBudget)
                     }}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
                   >
@@ -1782,6 +2793,22 @@ export default function SpreadsheetPage() {
                     placeholder="100000000"
                   />
                 </div>
+                {!isBottomUp && (
+                  <div className="mb-4">
+                    <label className="flex items-center gap-2 text-sm text-gray-900">
+                      <input
+                        type="checkbox"
+                        checked={periodModalKeepAmounts}
+                        onChange={(e) => setPeriodModalKeepAmounts(e.target.checked)}
+                      />
+                      配分額を維持する（割合を再計算）
+                    </label>
+                    <p className="text-xs text-gray-500 mt-1">
+                      オフの場合は保存済みの割合から配分額と数量を再計算します
+                    </p>
+                  </div>
+                )}
+                {periodDetailsFields}
               </>
             )}
 
@@ -1838,10 +2865,281 @@ export default function SpreadsheetPage() {
         </div>
       )}
 
+      {/* Auto Allocate Modal */}
+      {showAutoAllocateModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg w-full max-w-md">
+            <h2 className="text-xl font-bold mb-4 text-gray-900">自動配分</h2>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-900 mb-2">対象期間</label>
+              <select
+                value={autoAllocatePeriod === null ? 'null' : autoAllocatePeriod}
+                onChange={(e) => setAutoAllocatePeriod(e.target.value === 'null' ? null : e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                {availablePeriods.map(period => (
+                  <option key={period === null ? 'null' : period} value={period === null ? 'null' : period}>
+                    {period === null ? 'デフォルト' : period}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-900 mb-2">配分方法</label>
+              <select
+                value={autoAllocateStrategy}
+                onChange={(e) => setAutoAllocateStrategy(e.target.value as AllocationStrategy)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                <option value="equal">均等配分</option>
+                <option value="sku_count">SKU数に比例</option>
+                <option value="unit_price">単価合計に比例</option>
+              </select>
+            </div>
+            <div className="mb-4">
+              <label className="flex items-center gap-2 text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={autoAllocateOnlyUnallocated}
+                  onChange={(e) => setAutoAllocateOnlyUnallocated(e.target.checked)}
+                />
+                未配分のノードのみ配分する
+              </label>
+              <p className="text-xs text-gray-500 mt-1">
+                L1からSKUまで全階層を一括で配分します
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={autoAllocateTree}
+                disabled={loadingOperations.autoAllocate}
+                className="btn btn-primary flex-1 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {loadingOperations.autoAllocate && <Loader2 size={16} className="animate-spin" />}
+                配分
+              </button>
+              <button
+                onClick={() => setShowAutoAllocateModal(false)}
+                disabled={loadingOperations.autoAllocate}
+                className="btn btn-secondary flex-1"
+              >
+                キャンセル
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Goal Seek Modal */}
+      {showGoalSeekModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg w-full max-w-md">
+            <h2 className="text-xl font-bold mb-4 text-gray-900">目標数量から逆算</h2>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-900 mb-2">対象期間</label>
+              <select
+                value={goalSeekPeriod === null ? 'null' : goalSeekPeriod}
+                onChange={(e) => {
+                  setGoalSeekPeriod(e.target.value === 'null' ? null : e.target.value)
+                  setGoalSeekPreview(null)
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                {availablePeriods.map(period => (
+                  <option key={period === null ? 'null' : period} value={period === null ? 'null' : period}>
+                    {period === null ? 'デフォルト' : period}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-900 mb-2">対象の階層</label>
+              <input
+                type="text"
+                list="goal-seek-paths"
+                value={goalSeekPath}
+                onChange={(e) => {
+                  setGoalSeekPath(e.target.value)
+                  setGoalSeekPreview(null)
+                }}
+                placeholder="空欄の場合は期間全体"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+              />
+              <datalist id="goal-seek-paths">
+                {allocationContext && collectHierarchyPaths(allocationContext).map(path => (
+                  <option key={path} value={path} />
+                ))}
+              </datalist>
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-900 mb-2">目標数量（個）</label>
+              <input
+                type="number"
+                value={goalSeekTarget}
+                onChange={(e) => {
+                  setGoalSeekTarget(e.target.value)
+                  setGoalSeekPreview(null)
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+                min="1"
+                step="1"
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-900 mb-2">逆算する項目</label>
+              <select
+                value={goalSeekSolveFor}
+                onChange={(e) => {
+                  setGoalSeekSolveFor(e.target.value as GoalSeekTarget)
+                  setGoalSeekPreview(null)
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                <option value="budget">期間予算（割合はそのまま）</option>
+                <option value="percentage">階層の割合（予算はそのまま）</option>
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                保存済みの配分をもとに計算します
+              </p>
+            </div>
+            {goalSeekPreview && (
+              <div className={`mb-4 p-3 rounded text-sm ${goalSeekPreview.reachable ? 'bg-blue-50 text-gray-900' : 'bg-red-50 text-red-700'}`}>
+                {!goalSeekPreview.reachable && <p className="font-medium mb-1">目標数量に到達できません</p>}
+                <p>現在の数量: {goalSeekPreview.currentQuantity.toLocaleString()}個</p>
+                {goalSeekPreview.solveFor === 'budget' ? (
+                  <p>
+                    必要な期間予算: ¥{goalSeekPreview.requiredBudget.toLocaleString()}
+                    （現在 ¥{goalSeekPreview.currentBudget.toLocaleString()}）
+                  </p>
+                ) : (
+                  <p>
+                    必要な割合: {goalSeekPreview.requiredPercentage?.toFixed(2) ?? '-'}%
+                    （現在 {goalSeekPreview.currentPercentage?.toFixed(2) ?? '-'}%）
+                  </p>
+                )}
+                {goalSeekPreview.reachable && (
+                  <p>適用後の数量: {goalSeekPreview.achievedQuantity.toLocaleString()}個</p>
+                )}
+              </div>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={() => runGoalSeek(false)}
+                disabled={loadingOperations.goalSeek}
+                className="btn btn-secondary flex-1 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {loadingOperations.goalSeek && <Loader2 size={16} className="animate-spin" />}
+                試算
+              </button>
+              {canEdit && (
+                <button
+                  onClick={() => runGoalSeek(true)}
+                  disabled={loadingOperations.goalSeek || !goalSeekPreview?.reachable}
+                  className="btn btn-primary flex-1 disabled:opacity-50"
+                >
+                  適用
+                </button>
+              )}
+              <button
+                onClick={() => setShowGoalSeekModal(false)}
+                disabled={loadingOperations.goalSeek}
+                className="btn btn-secondary flex-1"
+              >
+                キャンセル
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Seasonality Modal */}
+      {showSeasonalityModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg w-full max-w-md">
+            <h2 className="text-xl font-bold mb-4 text-gray-900">年間予算を季節指数で配分</h2>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-900 mb-2">年間予算</label>
+              <input
+                type="number"
+                value={seasonalityBudget}
+                onChange={(e) => setSeasonalityBudget(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="1200000000"
+              />
+            </div>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-900 mb-2">季節指数</label>
+              <select
+                value={seasonalityProfile}
+                onChange={(e) => setSeasonalityProfile(e.target.value as SeasonalityProfile | 'saved')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+              >
+                {session.seasonality && <option value="saved">前回の設定を再適用</option>}
+                <option value="flat">均等</option>
+                <option value="custom">ウェイトを指定</option>
+                <option value="previous_session">他のセッションの期間予算から算出</option>
+              </select>
+            </div>
+            {seasonalityProfile === 'previous_session' && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-900 mb-2">参照するセッション</label>
+                <select
+                  value={seasonalitySourceId}
+                  onChange={(e) => setSeasonalitySourceId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+                >
+                  <option value="">選択してください</option>
+                  {sourceSessions.map(s => (
+                    <option key={s.id} value={s.id}>{s.name}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  参照先の期間を日付順に並べ、上から順に対応させます
+                </p>
+              </div>
+            )}
+            {seasonalityProfile !== 'saved' && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-900 mb-2">期間（1行に1期間）</label>
+                <textarea
+                  value={seasonalityPeriods}
+                  onChange={(e) => setSeasonalityPeriods(e.target.value)}
+                  rows={8}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 font-mono text-sm"
+                  placeholder={seasonalityProfile === 'custom' ? '2024-04,8\n2024-05,10' : '2024-04\n2024-05'}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {seasonalityProfile === 'custom'
+                    ? '「期間名,ウェイト」の形式で入力してください'
+                    : '存在しない期間は新しく作成されます'}
+                </p>
+              </div>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={applySeasonality}
+                disabled={loadingOperations.seasonality}
+                className="btn btn-primary flex-1 flex items-center justify-center gap-2 disabled:opacity-50"
+              >
+                {loadingOperations.seasonality && <Loader2 size={16} className="animate-spin" />}
+                配分
+              </button>
+              <button
+                onClick={() => setShowSeasonalityModal(false)}
+                disabled={loadingOperations.seasonality}
+                className="btn btn-secondary flex-1"
+              >
+                キャンセル
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* CSV Upload Modal */}
       {showUploadModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
-          <div className="bg-white p-6 rounded-lg w-full max-w-md relative">
+          <div className={`bg-white p-6 rounded-lg w-full ${columnMapping ? 'max-w-2xl' : 'max-w-md'} relative`}>
             {/* Loading overlay */}
             {loadingOperations.csvImport && (
               <div className="absolute inset-0 bg-white bg-opacity-90 flex flex-col items-center justify-center rounded-lg z-10">
@@ -1851,27 +3149,233 @@ export default function SpreadsheetPage() {
               </div>
             )}
 
-            <h2 className="text-xl font-bold mb-4 text-gray-900">CSV取り込み</h2>
-            <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-900 mb-2">CSVファイル</label>
-              <input
-                type="file"
-                accept=".csv"
-                onChange={handleCSVUpload}
-                disabled={loadingOperations.csvImport}
-                className="w-full disabled:opacity-50"
-              />
-              <p className="text-sm text-gray-600 mt-2">
-                必須カラム: sku_code, unitprice<br />
-                その他のカラムは自動的に階層として認識されます
-              </p>
-            </div>
+            <h2 className="text-xl font-bold mb-4 text-gray-900">{skuData.length > 0 ? 'CSV再取り込み' : 'CSV取り込み'}</h2>
+            {reimportPreview ? (
+              <div className="mb-4 text-sm text-gray-900">
+                <p className="font-semibold mb-2">{reimportPreview.file.name} の差分</p>
+                <ul className="space-y-1 mb-2">
+                  <li>追加: {reimportPreview.diff.added.length}件</li>
+                  <li>削除: {reimportPreview.diff.removed.length}件</li>
+                  <li>単価変更: {reimportPreview.diff.priceChanged.length}件</li>
+                  <li>階層移動: {reimportPreview.diff.moved.length}件</li>
+                  <li>変更なし: {reimportPreview.diff.unchanged}件</li>
+                  {reimportPreview.skipped > 0 && <li>除外（エラーのある行）: {reimportPreview.skipped}行</li>}
+                </ul>
+                {importReportPanel}
+                <div className="max-h-40 overflow-y-auto border border-gray-200 rounded p-2 space-y-1 text-xs">
+                  {reimportPreview.diff.added.map(e => <div key={`a-${e.skuCode}`} className="text-green-700">+ {e.path}</div>)}
+                  {reimportPreview.diff.removed.map(e => <div key={`r-${e.skuCode}`} className="text-red-600">- {e.path}</div>)}
+                  {reimportPreview.diff.priceChanged.map(e => (
+                    <div key={`p-${e.skuCode}`}>¥ {e.path}: ¥{e.previousUnitPrice?.toLocaleString()} → ¥{e.unitPrice.toLocaleString()}</div>
+                  ))}
+                  {reimportPreview.diff.moved.map(e => <div key={`m-${e.skuCode}`}>→ {e.previousPath} → {e.path}</div>)}
+                </div>
+                <p className="text-gray-600 mt-2">
+                  変更のない階層の配分は維持されます。削除された階層の配分は削除され、
+                  SKUが変わった{reimportPreview.diff.reviewPaths.length}件の階層は見直しが必要として表示されます。
+                </p>
+                <div className="flex gap-2 mt-4">
+                  <button
+                    onClick={applyReimport}
+                    disabled={loadingOperations.csvImport}
+                    className="btn btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    再取り込みを実行
+                  </button>
+                  <button
+                    onClick={() => setReimportPreview(null)}
+                    disabled={loadingOperations.csvImport}
+                    className="btn btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    ファイルを選び直す
+                  </button>
+                </div>
+              </div>
+            ) : columnMapping ? (
+              <div className="mb-4 text-sm text-gray-900">
+                <p className="font-semibold mb-2">{columnMapping.file.name} のカラム割り当て</p>
+                {importReportPanel}
+                <div className="flex items-center gap-4 mb-2">
+                  <label className="flex items-center gap-2">
+                    文字コード
+                    <select
+                      value={csvEncoding}
+                      onChange={(e) => changeCsvReadOptions(e.target.value as CsvEncoding | 'auto', normalizeCsv)}
+                      disabled={loadingOperations.csvImport}
+                      className="px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+                    >
+                      <option value="auto">自動判定（{CSV_ENCODING_LABELS[columnMapping.preview.encoding]}）</option>
+                      {(Object.keys(CSV_ENCODING_LABELS) as CsvEncoding[]).map(encoding => (
+                        <option key={encoding} value={encoding}>{CSV_ENCODING_LABELS[encoding]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={normalizeCsv}
+                      onChange={(e) => changeCsvReadOptions(csvEncoding, e.target.checked)}
+                      disabled={loadingOperations.csvImport}
+                    />
+                    全角・半角を統一（英数字は半角、カタカナは全角）
+                  </label>
+                </div>
+                <p className="text-gray-600 mb-1">先頭{columnMapping.preview.rows.length}行のプレビュー（文字化けしている場合は文字コードを変更してください）</p>
+                <div className="max-h-40 overflow-auto border border-gray-200 rounded mb-4">
+                  <table className="text-xs">
+                    <thead>
+                      <tr className="bg-gray-50">
+                        {columnMapping.preview.columns.map(col => (
+                          <th key={col} className="px-2 py-1 text-left font-medium whitespace-nowrap">{col}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {columnMapping.preview.rows.map((row, i) => (
+                        <tr key={i} className="border-t border-gray-100">
+                          {columnMapping.preview.columns.map(col => (
+                            <td key={col} className="px-2 py-1 whitespace-nowrap">{row[col]}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="grid grid-cols-2 gap-3 mb-4">
+                  {([
+                    ['skuCode', 'SKUコード', true],
+                    ['unitPrice', '単価', true],
+                    ['caseSize', 'ケース入数', false],
+                    ['minOrderQty', '最小発注数', false]
+                  ] as const).map(([key, label, required]) => (
+                    <label key={key} className="block">
+                      <span className="block font-medium mb-1">{label}{required && ' *'}</span>
+                      <select
+                        value={columnMapping.mapping[key] ?? ''}
+                        onChange={(e) => updateColumnMapping({ [key]: e.target.value || null })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900"
+                      >
+                        {!required && <option value="">（なし）</option>}
+                        {required && !columnMapping.preview.columns.includes(columnMapping.mapping[key] ?? '') && (
+                          <option value={columnMapping.mapping[key] ?? ''} disabled>選択してください</option>
+                        )}
+                        {columnMapping.preview.columns.map(col => <option key={col} value={col}>{col}</option>)}
+                      </select>
+                    </label>
+                  ))}
+                </div>
+                <p className="font-medium mb-1">階層（上から順に第1階層、チェックを外したカラムは無視）</p>
+                <div className="border border-gray-200 rounded divide-y divide-gray-100 mb-4">
+                  {[
+                    ...columnMapping.mapping.hierarchy,
+                    ...columnMapping.preview.columns.filter(col => !getMappedColumns(columnMapping.mapping).includes(col))
+                  ].map(col => {
+                    const index = columnMapping.mapping.hierarchy.indexOf(col)
+                    return (
+                      <div key={col} className="flex items-center gap-2 px-2 py-1">
+                        <input
+                          type="checkbox"
+                          checked={index >= 0}
+                          onChange={() => toggleHierarchyColumn(col)}
+                        />
+                        <span className={`flex-1 ${index >= 0 ? '' : 'text-gray-400 line-through'}`}>
+                          {index >= 0 && `${index + 1}. `}{col}
+                        </span>
+                        {index >= 0 && (
+                          <>
+                            <button
+                              onClick={() => moveHierarchyColumn(index, -1)}
+                              disabled={index === 0}
+                              className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                              title="上へ"
+                            >
+                              <ChevronUp size={14} />
+                            </button>
+                            <button
+                              onClick={() => moveHierarchyColumn(index, 1)}
+                              disabled={index === columnMapping.mapping.hierarchy.length - 1}
+                              className="p-1 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+                              title="下へ"
+                            >
+                              <ChevronDown size={14} />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+                {category?.permissions.canEdit && (
+                  <label className="flex items-center gap-2 mb-2">
+                    <input
+                      type="checkbox"
+                      checked={saveColumnMapping}
+                      onChange={(e) => setSaveColumnMapping(e.target.checked)}
+                    />
+                    この割り当てをカテゴリに保存し、次回の取り込みで使う
+                  </label>
+                )}
+                {skuData.length > 0 && (
+                  <p className="text-gray-600 mb-2">再取り込みでは階層を現在のデータと同じにしてください</p>
+                )}
+                <div className="flex gap-2 mt-4">
+                  <button
+                    onClick={importWithMapping}
+                    disabled={loadingOperations.csvImport}
+                    className="btn btn-primary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {skuData.length > 0 ? '差分を確認' : '取り込む'}
+                  </button>
+                  <button
+                    onClick={() => {
+                      setColumnMapping(null)
+                      setImportReport(null)
+                    }}
+                    disabled={loadingOperations.csvImport}
+                    className="btn btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    ファイルを選び直す
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="mb-4">
+                {importReportPanel}
+                <label className="block text-sm font-medium text-gray-900 mb-2">検証モード</label>
+                <select
+                  value={importValidationMode}
+                  onChange={(e) => setImportValidationMode(e.target.value as ImportValidationMode)}
+                  disabled={loadingOperations.csvImport}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-gray-900 mb-4"
+                >
+                  <option value="strict">厳格（エラーが1件でもあれば取り込まない）</option>
+                  <option value="lenient">寛容（エラーのある行を除外して取り込む）</option>
+                </select>
+                <label className="block text-sm font-medium text-gray-900 mb-2">CSVファイル</label>
+                <input
+                  type="file"
+                  accept=".csv"
+                  onChange={handleCSVUpload}
+                  disabled={loadingOperations.csvImport}
+                  className="w-full disabled:opacity-50"
+                />
+                <p className="text-sm text-gray-600 mt-2">
+                  ファイルを選ぶと、SKUコード・単価・階層に使うカラムを割り当てられます<br />
+                  初期値: sku_code, unitprice, case_size（ケース入数）, min_order_qty（最小発注数）、その他のカラムは階層
+                  {skuData.length > 0 && <><br />再取り込みでは階層カラムを現在のデータと同じにしてください</>}
+                </p>
+              </div>
+            )}
             <button
-              onClick={() => setShowUploadModal(false)}
+              onClick={() => {
+                setShowUploadModal(false)
+                setColumnMapping(null)
+                setImportReport(null)
+              }}
               disabled={loadingOperations.csvImport}
               className="btn btn-secondary w-full disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              キャンセル
+              {importReport ? '閉じる' : 'キャンセル'}
             </button>
           </div>
         </div>
@@ -5,11 +5,13 @@ import { useRouter } from 'next/navigation'
 import { useSession } from 'next-auth/react'
 import Link from 'next/link'
 import { Plus, FolderOpen, FileText, ChevronDown, ChevronRight } from 'lucide-react'
+import type { CategoryPermissions } from '@/types'
 
 interface Category {
   id: string
   name: string
   createdAt: string
+  permissions: CategoryPermissions
   user?: {
     name: string | null
     email: string
@@ -26,7 +28,7 @@ interface Session {
   name: string
   status: string
   createdAt: string
-  category: Category
+  category: Omit<Category, 'permissions'>
   periodBudgets: PeriodBudget[]
 }
 
@@ -369,7 +371,7 @@ export default function DashboardPage() {
                 onChange={(e) => setNewSession({ ...newSession, categoryId: e.target.value })}
               >
                 <option value="">選択してください</option>
-                {categories.map((cat) => (
+                {categories.filter(cat => cat.permissions.canCreateSession).map((cat) => (
                   <option key={cat.id} value={cat.id}>
                     {cat.name}
                   </option>
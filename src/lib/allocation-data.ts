@@ -0,0 +1,63 @@
+import { Allocation, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { createAllocationContext } from './allocation'
+import type { AllocationContext, AllocationValues } from '@/types'
+
+export async function loadAllocationContext(sessionId: string): Promise<AllocationContext> {
+  const [budgetSession, hierarchyDefinitions, skuData, periodBudgets] = await Promise.all([
+    prisma.session.findUnique({
+      where: { id: sessionId },
+      select: { roundingMode: true, planningMode: true, quantityDistribution: true }
+    }),
+    prisma.hierarchyDefinition.findMany({
+      where: { sessionId },
+      orderBy: { level: 'asc' }
+    }),
+    prisma.skuData.findMany({
+      where: { sessionId }
+    }),
+    prisma.periodBudget.findMany({
+      where: { sessionId }
+    })
+  ])
+
+  return createAllocationContext(
+    hierarchyDefinitions,
+    skuData.map(sku => ({
+      ...sku,
+      hierarchyValues: sku.hierarchyValues as Record<string, string>
+    })),
+    periodBudgets.map(pb => ({
+      period: pb.period,
+      budget: Number(pb.budget)
+    })),
+    budgetSession ?? {}
+  )
+}
+
+export function toAllocationValues(allocation: Allocation): AllocationValues {
+  return {
+    hierarchyPath: allocation.hierarchyPath,
+    level: allocation.level,
+    percentage: parseFloat(allocation.percentage.toString()),
+    amount: Number(allocation.amount),
+    quantity: allocation.quantity,
+    period: allocation.period,
+    skuQuantities: allocation.skuQuantities as Record<string, number> | null,
+    locked: allocation.locked
+  }
+}
+
+export function toAllocationRecord(sessionId: string, allocation: AllocationValues) {
+  return {
+    sessionId,
+    hierarchyPath: allocation.hierarchyPath,
+    level: allocation.level,
+    percentage: allocation.percentage,
+    amount: BigInt(allocation.amount),
+    quantity: allocation.quantity,
+    period: allocation.period,
+    skuQuantities: allocation.skuQuantities ?? Prisma.JsonNull,
+    locked: allocation.locked ?? false
+  }
+}
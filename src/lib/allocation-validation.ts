@@ -0,0 +1,203 @@
+import {
+  PERCENTAGE_PRECISION,
+  buildSkuPath,
+  findAllocation,
+  getParentAmount,
+  getParentPath,
+  getPathLevel,
+  indexAllocations
+} from './allocation'
+import type {
+  AllocationContext,
+  AllocationIssue,
+  AllocationValidationReport,
+  AllocationValues
+} from '@/types'
+
+const formatPath = (path: string) => `「${path}」`
+
+const formatChildren = (parentPath: string | null) =>
+  parentPath === null ? '第1階層' : `${formatPath(parentPath)}の子階層`
+
+function validatePeriod(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  period: string | null
+): AllocationIssue[] {
+  const issues: AllocationIssue[] = []
+  const index = indexAllocations(allocations)
+  const childrenByParent = new Map<string | null, AllocationValues[]>()
+
+  for (const allocation of allocations) {
+    const parentPath = getParentPath(allocation.hierarchyPath)
+    const siblings = childrenByParent.get(parentPath)
+    if (siblings) {
+      siblings.push(allocation)
+    } else {
+      childrenByParent.set(parentPath, [allocation])
+    }
+
+    if (!ctx.skusByPath.has(allocation.hierarchyPath)) {
+      issues.push({
+        type: 'orphan_path',
+        severity: 'warning',
+        period,
+        hierarchyPath: allocation.hierarchyPath,
+        message: `${formatPath(allocation.hierarchyPath)}はSKUデータに存在しない階層です`
+      })
+    }
+
+    if (allocation.amount < 0) {
+      issues.push({
+        type: 'negative_amount',
+        severity: 'error',
+        period,
+        hierarchyPath: allocation.hierarchyPath,
+        message: `${formatPath(allocation.hierarchyPath)}の金額がマイナスです（¥${allocation.amount.toLocaleString()}）`
+      })
+    }
+
+    const parentAmount = getParentAmount(ctx, index, allocation.hierarchyPath, period)
+    if (allocation.amount > parentAmount) {
+      issues.push({
+        type: 'amount_overflow',
+        severity: 'error',
+        period,
+        hierarchyPath: allocation.hierarchyPath,
+        message: `${formatPath(allocation.hierarchyPath)}の金額が親の配分額（¥${parentAmount.toLocaleString()}）を超えています`
+      })
+    }
+  }
+
+  for (const [parentPath, children] of Array.from(childrenByParent.entries())) {
+    // Each persisted percentage may be off by its storage precision
+    const tolerance = PERCENTAGE_PRECISION * children.length + 1e-9
+    const totalPercentage = children.reduce((sum, a) => sum + a.percentage, 0)
+
+    if (Math.abs(totalPercentage - 100) > tolerance) {
+      issues.push({
+        type: 'percentage_total',
+        severity: 'error',
+        period,
+        hierarchyPath: parentPath,
+        message: `${formatChildren(parentPath)}の割合合計が${totalPercentage.toFixed(2)}%です`
+      })
+    }
+
+    const parentAmount = getParentAmount(ctx, index, children[0].hierarchyPath, period)
+    const totalAmount = children.reduce((sum, a) => sum + a.amount, 0)
+
+    if (totalAmount > parentAmount) {
+      issues.push({
+        type: 'amount_overflow',
+        severity: 'error',
+        period,
+        hierarchyPath: parentPath,
+        message: `${formatChildren(parentPath)}の金額合計（¥${totalAmount.toLocaleString()}）が配分額（¥${parentAmount.toLocaleString()}）を超えています`
+      })
+    }
+  }
+
+  for (const sku of ctx.skuData) {
+    const pathParts = buildSkuPath(sku, ctx.hierarchyDefinitions).split('/')
+    const hasChain = pathParts.some((_, i) =>
+      findAllocation(index, pathParts.slice(0, i + 1).join('/'), period) !== undefined
+    )
+
+    if (!hasChain) {
+      issues.push({
+        type: 'unallocated_sku',
+        severity: 'warning',
+        period,
+        hierarchyPath: pathParts.join('/'),
+        message: `SKU「${sku.skuCode}」に配分がありません`
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Sibling groups whose locked rows take more than the parent amount, or whose
+ * percentages then add up to more than 100%. Locked amounts are kept exactly
+ * as saved, so the recalculation cannot bring these groups back in line.
+ */
+export function findLockedOverflows(
+  ctx: AllocationContext,
+  allocations: AllocationValues[]
+): AllocationIssue[] {
+  const issues: AllocationIssue[] = []
+  const index = indexAllocations(allocations)
+  const groups = new Map<string, AllocationValues[]>()
+
+  for (const allocation of allocations) {
+    const key = JSON.stringify([allocation.period, getPathLevel(allocation.hierarchyPath), getParentPath(allocation.hierarchyPath)])
+    const group = groups.get(key)
+    if (group) {
+      group.push(allocation)
+    } else {
+      groups.set(key, [allocation])
+    }
+  }
+
+  for (const children of Array.from(groups.values())) {
+    if (!children.some(a => a.locked)) continue
+
+    const { hierarchyPath, period } = children[0]
+    const parentPath = getParentPath(hierarchyPath)
+    const parentAmount = getParentAmount(ctx, index, hierarchyPath, period)
+    const lockedAmount = children.filter(a => a.locked).reduce((sum, a) => sum + a.amount, 0)
+    const tolerance = PERCENTAGE_PRECISION * children.length + 1e-9
+    const totalPercentage = children.reduce((sum, a) => sum + a.percentage, 0)
+
+    if (lockedAmount > parentAmount) {
+      issues.push({
+        type: 'amount_overflow',
+        severity: 'error',
+        period,
+        hierarchyPath: parentPath,
+        message: `${formatChildren(parentPath)}のロックした金額（¥${lockedAmount.toLocaleString()}）が配分額（¥${parentAmount.toLocaleString()}）を超えています`
+      })
+    } else if (totalPercentage > 100 + tolerance) {
+      issues.push({
+        type: 'percentage_total',
+        severity: 'error',
+        period,
+        hierarchyPath: parentPath,
+        message: `${formatChildren(parentPath)}の割合合計が${totalPercentage.toFixed(2)}%です`
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Integrity report per period: sibling percentage totals, stale paths,
+ * negative or overflowing amounts and SKUs without any allocation above them.
+ */
+export function validateAllocations(
+  ctx: AllocationContext,
+  allocations: AllocationValues[]
+): AllocationValidationReport {
+  const periods = Array.from(new Set([
+    ...ctx.periodBudgets.map(pb => pb.period),
+    ...allocations.map(a => a.period)
+  ]))
+
+  const report = periods.map(period => ({
+    period,
+    issues: validatePeriod(ctx, allocations.filter(a => a.period === period), period)
+  }))
+
+  const issues = report.flatMap(p => p.issues)
+  const errorCount = issues.filter(issue => issue.severity === 'error').length
+
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    periods: report
+  }
+}
@@ -0,0 +1,927 @@
+import type {
+  AllocationChange,
+  AllocationChangeSummary,
+  AllocationContext,
+  AllocationMismatch,
+  AllocationSku,
+  AllocationValues,
+  RoundingMode
+} from '@/types'
+
+type AllocationHierarchyDefinition = AllocationContext['hierarchyDefinitions'][number]
+type AllocationOptions = Partial<Pick<AllocationContext, 'roundingMode' | 'planningMode' | 'quantityDistribution'>>
+
+// Percentages are persisted as Decimal(12,8), so a reloaded percentage may differ
+// from the one the amount was computed with by up to half of the last stored digit.
+export const PERCENTAGE_PRECISION = 0.000000005
+
+// Guards Math.floor against binary float error, e.g. 10000 * 0.29 = 2899.9999999999995
+const FLOAT_EPSILON = 1e-6
+
+export function buildHierarchyPath(
+  sku: AllocationSku,
+  definitions: AllocationHierarchyDefinition[],
+  maxLevel: number
+): string {
+  const parts: string[] = []
+  for (let i = 0; i < maxLevel && i < definitions.length; i++) {
+    const value = sku.hierarchyValues[definitions[i].columnName]
+    if (value) parts.push(value)
+  }
+  return parts.join('/')
+}
+
+export function buildSkuPath(sku: AllocationSku, definitions: AllocationHierarchyDefinition[]): string {
+  const parentPath = buildHierarchyPath(sku, definitions, definitions.length)
+  return parentPath ? `${parentPath}/${sku.skuCode}` : sku.skuCode
+}
+
+export function getParentPath(path: string): string | null {
+  const parts = path.split('/')
+  if (parts.length === 1) return null
+  return parts.slice(0, -1).join('/')
+}
+
+export function getPathLevel(path: string): number {
+  return path.split('/').length
+}
+
+export function isDescendantPath(path: string, ancestorPath: string): boolean {
+  return path.startsWith(`${ancestorPath}/`)
+}
+
+export function createAllocationContext(
+  hierarchyDefinitions: AllocationContext['hierarchyDefinitions'],
+  skuData: AllocationSku[],
+  periodBudgets: AllocationContext['periodBudgets'],
+  {
+    roundingMode = 'largest_remainder',
+    planningMode = 'top_down',
+    quantityDistribution = 'price_weighted'
+  }: AllocationOptions = {}
+): AllocationContext {
+  const definitions = [...hierarchyDefinitions].sort((a, b) => a.level - b.level)
+  const skusByPath = new Map<string, AllocationSku[]>()
+
+  const addToPath = (path: string, sku: AllocationSku) => {
+    if (!path) return
+    const skus = skusByPath.get(path)
+    if (skus) {
+      skus.push(sku)
+    } else {
+      skusByPath.set(path, [sku])
+    }
+  }
+
+  for (const sku of skuData) {
+    for (let level = 1; level <= definitions.length; level++) {
+      const path = buildHierarchyPath(sku, definitions, level)
+      if (getPathLevel(path) === level) addToPath(path, sku)
+    }
+    addToPath(buildSkuPath(sku, definitions), sku)
+  }
+
+  return {
+    hierarchyDefinitions: definitions,
+    skuData,
+    periodBudgets,
+    roundingMode,
+    planningMode,
+    quantityDistribution,
+    skusByPath
+  }
+}
+
+/**
+ * Group-level hierarchy paths (L1 down to maxLevel), excluding SKU paths.
+ */
+export function collectHierarchyPaths(
+  ctx: AllocationContext,
+  maxLevel = ctx.hierarchyDefinitions.length
+): string[] {
+  const paths = new Set<string>()
+
+  for (const sku of ctx.skuData) {
+    for (let level = 1; level <= maxLevel; level++) {
+      const path = buildHierarchyPath(sku, ctx.hierarchyDefinitions, level)
+      if (path && getPathLevel(path) === level) paths.add(path)
+    }
+  }
+
+  return Array.from(paths)
+}
+
+/**
+ * Paths at a single level; the level below the last hierarchy column is the SKU level.
+ */
+export function collectLevelPaths(ctx: AllocationContext, level: number): string[] {
+  if (level === ctx.hierarchyDefinitions.length + 1) {
+    return ctx.skuData.map(sku => buildSkuPath(sku, ctx.hierarchyDefinitions))
+  }
+
+  return collectHierarchyPaths(ctx, level).filter(path => getPathLevel(path) === level)
+}
+
+/**
+ * Zero allocations for every hierarchy node of a new period. Only children
+ * start at 100%, so their amounts follow the parent once recalculated.
+ */
+export function buildPlaceholderAllocations(ctx: AllocationContext, period: string | null): AllocationValues[] {
+  const hierarchyPaths = collectHierarchyPaths(ctx)
+  const childCounts = new Map<string | null, number>()
+
+  for (const path of hierarchyPaths) {
+    const parentPath = getParentPath(path)
+    childCounts.set(parentPath, (childCounts.get(parentPath) ?? 0) + 1)
+  }
+
+  return hierarchyPaths.map(path => ({
+    hierarchyPath: path,
+    level: getPathLevel(path),
+    percentage: childCounts.get(getParentPath(path)) === 1 ? 100 : 0,
+    amount: 0,
+    quantity: 0,
+    period
+  }))
+}
+
+export function getSkusForPath(ctx: AllocationContext, path: string): AllocationSku[] {
+  return ctx.skusByPath.get(path) || []
+}
+
+export function getPeriodBudget(ctx: AllocationContext, period: string | null): number {
+  const periodBudget = ctx.periodBudgets.find(pb => pb.period === period)
+  return periodBudget ? periodBudget.budget : 0
+}
+
+export function calculateAmount(parentAmount: number, percentage: number): number {
+  return Math.floor(parentAmount * (percentage / 100) + FLOAT_EPSILON)
+}
+
+export function calculatePercentage(parentAmount: number, amount: number): number {
+  return parentAmount > 0 ? (amount / parentAmount) * 100 : 0
+}
+
+/**
+ * Percentage rounded for display. Stored percentages keep their full
+ * precision so amounts are always derived from the exact share.
+ */
+export function roundPercentage(percentage: number, fractionDigits = 2): number {
+  return Number(percentage.toFixed(fractionDigits))
+}
+
+/**
+ * Integer units per SKU for a node's amount. price_weighted gives every SKU an
+ * equal share of the amount converted at its own unit price, so cheaper SKUs
+ * get more units; equal_units gives every SKU the same number of units. The yen
+ * left over buys one more unit per SKU, cheapest first, and then goes to the
+ * cheapest SKU. Finally each SKU is rounded to its case pack and MOQ.
+ */
+export function distributeSkuQuantities(
+  ctx: AllocationContext,
+  path: string,
+  amount: number
+): Record<string, number> {
+  const skus = getSkusForPath(ctx, path)
+  const quantities: Record<string, number> = {}
+  for (const sku of skus) quantities[sku.skuCode] = 0
+
+  const priced = skus
+    .filter(sku => sku.unitPrice > 0)
+    .sort((a, b) => a.unitPrice - b.unitPrice || a.skuCode.localeCompare(b.skuCode))
+  if (priced.length === 0 || amount <= 0) return quantities
+
+  const totalUnitPrice = priced.reduce((sum, sku) => sum + sku.unitPrice, 0)
+  let leftover = amount
+
+  for (const sku of priced) {
+    const units = ctx.quantityDistribution === 'equal_units'
+      ? Math.floor(amount / totalUnitPrice)
+      : Math.floor(amount / priced.length / sku.unitPrice + FLOAT_EPSILON)
+    quantities[sku.skuCode] += units
+    leftover -= units * sku.unitPrice
+  }
+
+  for (const sku of priced) {
+    if (leftover < sku.unitPrice) break
+    quantities[sku.skuCode] += 1
+    leftover -= sku.unitPrice
+  }
+
+  quantities[priced[0].skuCode] += Math.floor(leftover / priced[0].unitPrice)
+
+  for (const sku of priced) {
+    quantities[sku.skuCode] = constrainQuantity(sku, quantities[sku.skuCode])
+  }
+
+  return quantities
+}
+
+/**
+ * Rounds units to whole case packs, and to either nothing or at least the
+ * minimum order quantity, whichever is nearer. Rounding up may overspend.
+ */
+export function constrainQuantity(sku: AllocationSku, units: number): number {
+  if (units <= 0) return 0
+
+  const caseSize = sku.caseSize || 1
+  const smallest = Math.max(caseSize, Math.ceil((sku.minOrderQty || 0) / caseSize) * caseSize)
+  const quantity = Math.round(units / caseSize) * caseSize
+
+  if (quantity >= smallest) return quantity
+  return units * 2 >= smallest ? smallest : 0
+}
+
+/**
+ * What the rounded units of an allocation cost at unit price.
+ */
+export function calculateUnitCost(ctx: AllocationContext, allocation: AllocationValues): number {
+  const skus = getSkusForPath(ctx, allocation.hierarchyPath)
+
+  if (allocation.skuQuantities) {
+    return skus.reduce((sum, sku) => sum + (allocation.skuQuantities?.[sku.skuCode] || 0) * sku.unitPrice, 0)
+  }
+
+  return allocation.quantity * skus.reduce((sum, sku) => sum + sku.unitPrice, 0)
+}
+
+export function calculateQuantity(ctx: AllocationContext, path: string, amount: number): number {
+  return sumQuantities(distributeSkuQuantities(ctx, path, amount))
+}
+
+function sumQuantities(quantities: Record<string, number>): number {
+  return Object.values(quantities).reduce((sum, quantity) => sum + quantity, 0)
+}
+
+function isSkuLevel(ctx: AllocationContext, path: string): boolean {
+  return getPathLevel(path) > ctx.hierarchyDefinitions.length
+}
+
+function allocationKey(path: string, period: string | null): string {
+  return JSON.stringify([period, path])
+}
+
+export function indexAllocations<T extends AllocationValues>(allocations: T[]): Map<string, T> {
+  return new Map(allocations.map(a => [allocationKey(a.hierarchyPath, a.period), a]))
+}
+
+export function findAllocation<T extends AllocationValues>(
+  index: Map<string, T>,
+  path: string,
+  period: string | null
+): T | undefined {
+  return index.get(allocationKey(path, period))
+}
+
+function resolveParentAmount(
+  ctx: AllocationContext,
+  index: Map<string, AllocationValues>,
+  path: string,
+  period: string | null
+): number {
+  let parentPath = getParentPath(path)
+
+  while (parentPath !== null) {
+    const parentAllocation = findAllocation(index, parentPath, period)
+    if (parentAllocation) return parentAllocation.amount
+    parentPath = getParentPath(parentPath)
+  }
+
+  return getPeriodBudget(ctx, period)
+}
+
+/**
+ * Amount the node's percentage applies to: the nearest allocated ancestor in the
+ * same period, or the period budget for L1 and unallocated chains.
+ */
+export function getParentAmount(
+  ctx: AllocationContext,
+  allocations: AllocationValues[] | Map<string, AllocationValues>,
+  path: string,
+  period: string | null
+): number {
+  const index = allocations instanceof Map ? allocations : indexAllocations(allocations)
+  return resolveParentAmount(ctx, index, path, period)
+}
+
+function buildAllocation(
+  ctx: AllocationContext,
+  path: string,
+  period: string | null,
+  percentage: number,
+  amount: number
+): AllocationValues {
+  const skuQuantities = distributeSkuQuantities(ctx, path, amount)
+
+  return {
+    hierarchyPath: path,
+    level: getPathLevel(path),
+    percentage,
+    amount,
+    quantity: sumQuantities(skuQuantities),
+    period,
+    skuQuantities: isSkuLevel(ctx, path) ? null : skuQuantities
+  }
+}
+
+export function computeAllocation(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  path: string,
+  period: string | null,
+  percentage: number
+): AllocationValues {
+  const parentAmount = getParentAmount(ctx, allocations, path, period)
+  return buildAllocation(ctx, path, period, percentage, calculateAmount(parentAmount, percentage))
+}
+
+export function computeAllocationByAmount(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  path: string,
+  period: string | null,
+  amount: number
+): AllocationValues {
+  const parentAmount = getParentAmount(ctx, allocations, path, period)
+  return buildAllocation(ctx, path, period, calculatePercentage(parentAmount, amount), amount)
+}
+
+export function upsertAllocation<T extends { hierarchyPath: string; period?: string | null }>(
+  allocations: T[],
+  entry: T
+): T[] {
+  const existingIndex = allocations.findIndex(
+    a => a.hierarchyPath === entry.hierarchyPath && a.period === entry.period
+  )
+
+  if (existingIndex < 0) return [...allocations, entry]
+
+  const updated = [...allocations]
+  updated[existingIndex] = { ...updated[existingIndex], ...entry }
+  return updated
+}
+
+/**
+ * Splits a parent amount across a sibling group. Each child is floored first;
+ * unless the session uses plain flooring, the yen lost to flooring is handed
+ * back so that children whose percentages total 100 sum exactly to the parent.
+ */
+export function distributeAmount(
+  parentAmount: number,
+  percentages: number[],
+  roundingMode: RoundingMode
+): number[] {
+  const exact = percentages.map(percentage => parentAmount * (percentage / 100))
+  const amounts = exact.map(value => Math.floor(value + FLOAT_EPSILON))
+
+  if (roundingMode === 'floor' || amounts.length === 0) return amounts
+
+  const target = Math.round(exact.reduce((sum, value) => sum + value, 0))
+  let leftover = target - amounts.reduce((sum, amount) => sum + amount, 0)
+
+  if (leftover <= 0) return amounts
+
+  if (roundingMode === 'largest_share') {
+    const largest = exact.reduce((best, value, i) => (value > exact[best] ? i : best), 0)
+    amounts[largest] += leftover
+    return amounts
+  }
+
+  // largest_remainder: one yen each to the children that lost the most to flooring
+  const order = exact
+    .map((_, i) => i)
+    .sort((a, b) => (exact[b] - amounts[b]) - (exact[a] - amounts[a]) || a - b)
+
+  for (let i = 0; leftover > 0; i++, leftover--) {
+    amounts[order[i % order.length]] += 1
+  }
+
+  return amounts
+}
+
+/**
+ * Splits `parentAmount` across one sibling group. Locked rows keep their amount
+ * and quantity and only have their percentage re-derived against the parent.
+ * The unlocked rows are scaled by whatever share the locked rows gained or
+ * lost, so a group that added up to 100% still does, and share the rest of
+ * the amount by their percentages.
+ */
+export function allocateSiblingGroup(
+  ctx: AllocationContext,
+  parentAmount: number,
+  group: AllocationValues[]
+): AllocationValues[] {
+  const unlocked = group.filter(a => !a.locked)
+  const lockedShift = group
+    .filter(a => a.locked)
+    .reduce((sum, a) => sum + a.percentage - calculatePercentage(parentAmount, a.amount), 0)
+  const unlockedPercentage = unlocked.reduce((sum, a) => sum + a.percentage, 0)
+  // Stored percentages are rounded, so a locked row may drift by their precision
+  const scale = unlockedPercentage > 0 && Math.abs(lockedShift) > PERCENTAGE_PRECISION * group.length
+    ? Math.max(0, unlockedPercentage + lockedShift) / unlockedPercentage
+    : 1
+  const percentages = unlocked.map(a => a.percentage * scale)
+  const amounts = distributeAmount(parentAmount, percentages, ctx.roundingMode)
+  let next = 0
+
+  return group.map(a => {
+    if (a.locked) {
+      return { ...a, percentage: calculatePercentage(parentAmount, a.amount) }
+    }
+    const i = next++
+    return {
+      ...buildAllocation(ctx, a.hierarchyPath, a.period, percentages[i], amounts[i]),
+      locked: a.locked
+    }
+  })
+}
+
+/**
+ * Redistributes the percentage left over by the edited node `path` (which must
+ * already hold its new value) and any locked siblings across the remaining
+ * unlocked siblings, in proportion to their current percentages.
+ * Amounts are not touched; recalculate the group afterwards.
+ */
+export function rebalanceSiblings(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  path: string,
+  period: string | null
+): AllocationValues[] {
+  const parentPath = getParentPath(path)
+  const level = getPathLevel(path)
+  const parentAmount = getParentAmount(ctx, allocations, path, period)
+
+  const siblings = allocations.filter(a =>
+    a.period === period &&
+    a.hierarchyPath !== path &&
+    getPathLevel(a.hierarchyPath) === level &&
+    getParentPath(a.hierarchyPath) === parentPath
+  )
+  const edited = allocations.find(a => a.hierarchyPath === path && a.period === period)
+  const adjustable = siblings.filter(a => !a.locked)
+
+  if (!edited || adjustable.length === 0) return allocations
+
+  const lockedPercentage = siblings
+    .filter(a => a.locked)
+    .reduce((sum, a) => sum + calculatePercentage(parentAmount, a.amount), 0)
+  const remaining = Math.max(0, 100 - edited.percentage - lockedPercentage)
+  const currentTotal = adjustable.reduce((sum, a) => sum + a.percentage, 0)
+
+  const rebalanced = new Map(adjustable.map(a => [
+    a,
+    currentTotal > 0 ? (a.percentage / currentTotal) * remaining : remaining / adjustable.length
+  ]))
+
+  return allocations.map(a => {
+    const percentage = rebalanced.get(a)
+    return percentage === undefined ? a : { ...a, percentage }
+  })
+}
+
+function siblingGroupKey(allocation: AllocationValues): string {
+  return JSON.stringify([getPathLevel(allocation.hierarchyPath), allocation.period, getParentPath(allocation.hierarchyPath)])
+}
+
+/**
+ * Recomputes the rows selected by `inScope` top-down, one sibling group at a
+ * time, so rounding is always applied across complete groups. With
+ * `parentsAsGiven`, each group is derived from its parent's input amount
+ * rather than the recomputed one, so changes do not carry down.
+ */
+function recalculateScope(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  inScope: (allocation: AllocationValues) => boolean,
+  parentsAsGiven = false
+): AllocationValues[] {
+  const index = indexAllocations(allocations)
+  const parents = parentsAsGiven ? indexAllocations(allocations) : index
+  const groups = new Map<string, AllocationValues[]>()
+
+  const scoped = allocations
+    .filter(inScope)
+    .sort((a, b) => getPathLevel(a.hierarchyPath) - getPathLevel(b.hierarchyPath))
+
+  for (const allocation of scoped) {
+    const key = siblingGroupKey(allocation)
+    const group = groups.get(key)
+    if (group) {
+      group.push(allocation)
+    } else {
+      groups.set(key, [allocation])
+    }
+  }
+
+  // Map iteration follows insertion order, which is already sorted by level
+  for (const group of Array.from(groups.values())) {
+    const { hierarchyPath, period } = group[0]
+    const parentAmount = resolveParentAmount(ctx, parents, hierarchyPath, period)
+
+    for (const allocation of allocateSiblingGroup(ctx, parentAmount, group)) {
+      index.set(allocationKey(allocation.hierarchyPath, period), allocation)
+    }
+  }
+
+  return Array.from(index.values())
+}
+
+/**
+ * Recomputes every amount and quantity top-down from the stored percentages,
+ * so each node is derived from its (already recomputed) parent. Locked nodes
+ * keep their amounts. Bottom-up sessions are rolled up from SKU quantities.
+ */
+export function recalculateAllocations(
+  ctx: AllocationContext,
+  allocations: AllocationValues[]
+): AllocationValues[] {
+  if (ctx.planningMode === 'bottom_up') return rollUpAllocations(ctx, allocations)
+  return recalculateScope(ctx, allocations, () => true)
+}
+
+/**
+ * Recomputes only the sibling groups that differ from `previous`, each against
+ * its parent's amount as given. Descendants of an edited node keep their
+ * stale amounts instead of receiving the change.
+ */
+export function recalculateChangedGroups(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  previous: AllocationValues[]
+): AllocationValues[] {
+  if (ctx.planningMode === 'bottom_up') return rollUpAllocations(ctx, allocations)
+
+  const previousIndex = indexAllocations(previous)
+  const changedGroups = new Set(
+    allocations
+      .filter(a => {
+        const before = findAllocation(previousIndex, a.hierarchyPath, a.period)
+        return !before ||
+          before.amount !== a.amount ||
+          before.quantity !== a.quantity ||
+          !!before.locked !== !!a.locked ||
+          Math.abs(before.percentage - a.percentage) > PERCENTAGE_PRECISION
+      })
+      .map(siblingGroupKey)
+  )
+
+  return recalculateScope(ctx, allocations, a => changedGroups.has(siblingGroupKey(a)), true)
+}
+
+/**
+ * Adds a SKU-level row for every SKU that has none yet, holding the units its
+ * deepest allocation gives it, so a top-down plan keeps its figures when it is
+ * rolled up. SKUs without any allocation in a period stay without a row.
+ */
+export function seedSkuAllocations(
+  ctx: AllocationContext,
+  allocations: AllocationValues[]
+): AllocationValues[] {
+  const index = indexAllocations(allocations)
+  const periods = Array.from(new Set(allocations.map(a => a.period)))
+  const seeded: AllocationValues[] = []
+
+  for (const period of periods) {
+    for (const sku of ctx.skuData) {
+      const path = buildSkuPath(sku, ctx.hierarchyDefinitions)
+      if (findAllocation(index, path, period) || !findSkuAllocation(ctx, index, sku, period)) continue
+
+      seeded.push({
+        hierarchyPath: path,
+        level: getPathLevel(path),
+        percentage: 0,
+        amount: 0,
+        quantity: calculateSkuQuantity(ctx, index, sku, period),
+        period,
+        skuQuantities: null
+      })
+    }
+  }
+
+  return [...allocations, ...seeded]
+}
+
+/**
+ * Bottom-up planning: SKU quantities are authoritative. Each SKU amount is its
+ * quantity times its unit price, every group sums the amounts and units of the
+ * SKUs below it and percentages are derived against the parent, or the period
+ * total for L1.
+ */
+export function rollUpAllocations(
+  ctx: AllocationContext,
+  allocations: AllocationValues[]
+): AllocationValues[] {
+  const skuLevel = ctx.hierarchyDefinitions.length + 1
+  const index = new Map<string, AllocationValues>()
+
+  for (const allocation of allocations) {
+    const isSku = allocation.level === skuLevel
+    index.set(allocationKey(allocation.hierarchyPath, allocation.period), {
+      ...allocation,
+      percentage: 0,
+      amount: 0,
+      quantity: isSku ? allocation.quantity : 0,
+      skuQuantities: isSku ? null : {}
+    })
+  }
+
+  for (const allocation of Array.from(index.values())) {
+    if (allocation.level !== skuLevel) continue
+
+    const skus = getSkusForPath(ctx, allocation.hierarchyPath)
+    const unitPrice = skus.reduce((sum, sku) => sum + sku.unitPrice, 0)
+    allocation.amount = allocation.quantity * unitPrice
+
+    let parentPath = getParentPath(allocation.hierarchyPath)
+    while (parentPath !== null) {
+      const key = allocationKey(parentPath, allocation.period)
+      let parent = index.get(key)
+      if (!parent) {
+        parent = { hierarchyPath: parentPath, level: getPathLevel(parentPath), percentage: 0, amount: 0, quantity: 0, period: allocation.period, skuQuantities: {} }
+        index.set(key, parent)
+      }
+      const skuQuantities = parent.skuQuantities || {}
+      for (const sku of skus) {
+        skuQuantities[sku.skuCode] = (skuQuantities[sku.skuCode] || 0) + allocation.quantity
+      }
+      parent.amount += allocation.amount
+      parent.quantity += allocation.quantity
+      parent.skuQuantities = skuQuantities
+      parentPath = getParentPath(parentPath)
+    }
+  }
+
+  const rows = Array.from(index.values())
+  const periodTotals = new Map<string | null, number>()
+
+  for (const allocation of rows) {
+    if (allocation.level !== 1) continue
+    periodTotals.set(allocation.period, (periodTotals.get(allocation.period) || 0) + allocation.amount)
+  }
+
+  for (const allocation of rows) {
+    const parentPath = getParentPath(allocation.hierarchyPath)
+    const parentAmount = parentPath === null
+      ? periodTotals.get(allocation.period) || 0
+      : index.get(allocationKey(parentPath, allocation.period))?.amount ?? 0
+
+    allocation.percentage = calculatePercentage(parentAmount, allocation.amount)
+  }
+
+  return rows
+}
+
+/**
+ * Sum of the L1 amounts of a period, i.e. what the allocations add up to.
+ */
+export function calculatePeriodTotal(allocations: AllocationValues[], period: string | null): number {
+  return allocations
+    .filter(a => a.period === period && getPathLevel(a.hierarchyPath) === 1)
+    .reduce((sum, a) => sum + a.amount, 0)
+}
+
+/**
+ * The deepest allocation in `period` on the SKU's path, the SKU row itself included.
+ */
+export function findSkuAllocation<T extends AllocationValues>(
+  ctx: AllocationContext,
+  index: Map<string, T>,
+  sku: AllocationSku,
+  period: string | null
+): T | undefined {
+  const parts = buildSkuPath(sku, ctx.hierarchyDefinitions).split('/')
+
+  for (let level = parts.length; level >= 1; level--) {
+    const allocation = findAllocation(index, parts.slice(0, level).join('/'), period)
+    if (allocation) return allocation
+  }
+
+  return undefined
+}
+
+/**
+ * Units of the SKU allocated in `period` by its deepest allocation.
+ */
+export function calculateSkuQuantity(
+  ctx: AllocationContext,
+  index: Map<string, AllocationValues>,
+  sku: AllocationSku,
+  period: string | null
+): number {
+  const deepest = findSkuAllocation(ctx, index, sku, period)
+  if (!deepest) return 0
+  return deepest.skuQuantities ? deepest.skuQuantities[sku.skuCode] || 0 : deepest.quantity
+}
+
+/**
+ * Each SKU's amount in `period`: the amount of the deepest allocation on its
+ * path, split across the SKUs that allocation is the deepest for by the cost
+ * of their allocated units (evenly when it has none). The shares of one
+ * allocation add up to its amount exactly. SKUs without any allocation are omitted.
+ */
+export function calculateSkuAmounts(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  period: string | null
+): Record<string, number> {
+  const index = indexAllocations(allocations.filter(a => a.period === period))
+  const skusByAllocation = new Map<AllocationValues, AllocationSku[]>()
+
+  for (const sku of ctx.skuData) {
+    const deepest = findSkuAllocation(ctx, index, sku, period)
+    if (!deepest) continue
+
+    const skus = skusByAllocation.get(deepest)
+    if (skus) {
+      skus.push(sku)
+    } else {
+      skusByAllocation.set(deepest, [sku])
+    }
+  }
+
+  const amounts: Record<string, number> = {}
+  skusByAllocation.forEach((skus, allocation) => {
+    const costs = skus.map(sku => (allocation.skuQuantities?.[sku.skuCode] || 0) * sku.unitPrice)
+    const totalCost = costs.reduce((sum, cost) => sum + cost, 0)
+    const shares = totalCost > 0
+      ? costs.map(cost => cost / totalCost * 100)
+      : skus.map(() => 100 / skus.length)
+
+    distributeAmount(allocation.amount, shares, 'largest_remainder').forEach((amount, i) => {
+      amounts[skus[i].skuCode] = amount
+    })
+  })
+
+  return amounts
+}
+
+/**
+ * Keeps every amount and re-derives the top-level percentages of `period`
+ * against its budget in `ctx`. Lower levels keep their percentages because
+ * their parent amounts do not move.
+ */
+export function rebaseTopLevelPercentages(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  period: string | null
+): AllocationValues[] {
+  const budget = getPeriodBudget(ctx, period)
+
+  return allocations.map(a =>
+    a.period === period && getPathLevel(a.hierarchyPath) === 1
+      ? { ...a, percentage: calculatePercentage(budget, a.amount) }
+      : a
+  )
+}
+
+/**
+ * Per-row differences between two versions of the same allocations, matched
+ * by path and period. Totals are the L1 sums before and after.
+ */
+export function summarizeAllocationChanges(
+  before: AllocationValues[],
+  after: AllocationValues[]
+): AllocationChangeSummary {
+  const previous = indexAllocations(before)
+  const changes: AllocationChange[] = []
+
+  for (const allocation of after) {
+    const old = previous.get(allocationKey(allocation.hierarchyPath, allocation.period))
+    const change = {
+      hierarchyPath: allocation.hierarchyPath,
+      level: allocation.level,
+      period: allocation.period,
+      amountBefore: old?.amount ?? 0,
+      amountAfter: allocation.amount,
+      percentageBefore: old?.percentage ?? 0,
+      percentageAfter: allocation.percentage,
+      quantityBefore: old?.quantity ?? 0,
+      quantityAfter: allocation.quantity
+    }
+
+    if (
+      change.amountBefore !== change.amountAfter ||
+      Math.abs(change.percentageBefore - change.percentageAfter) > PERCENTAGE_PRECISION ||
+      change.quantityBefore !== change.quantityAfter
+    ) {
+      changes.push(change)
+    }
+  }
+
+  const sumTopLevel = (allocations: AllocationValues[]) => allocations
+    .filter(a => getPathLevel(a.hierarchyPath) === 1)
+    .reduce((sum, a) => sum + a.amount, 0)
+
+  return {
+    changed: changes.length,
+    unchanged: after.length - changes.length,
+    totalBefore: sumTopLevel(before),
+    totalAfter: sumTopLevel(after),
+    changes
+  }
+}
+
+/**
+ * Recomputes the sibling group of `path` in `period` after one of its
+ * percentages changed, leaving descendants untouched.
+ */
+export function recalculateSiblings(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  path: string,
+  period: string | null
+): AllocationValues[] {
+  const parentPath = getParentPath(path)
+  const level = getPathLevel(path)
+
+  return recalculateScope(ctx, allocations, a =>
+    a.period === period &&
+    getPathLevel(a.hierarchyPath) === level &&
+    getParentPath(a.hierarchyPath) === parentPath
+  )
+}
+
+/**
+ * Recomputes the sibling group of `path` in `period` and every descendant of
+ * those siblings after that node's percentage or amount changed.
+ */
+export function cascadeAllocations(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  path: string,
+  period: string | null
+): AllocationValues[] {
+  const parentPath = getParentPath(path)
+
+  return recalculateScope(ctx, allocations, a =>
+    a.period === period &&
+    (parentPath === null || isDescendantPath(a.hierarchyPath, parentPath))
+  )
+}
+
+/**
+ * Compares client-submitted allocations against the engine's recalculation.
+ * Amounts may drift by the rounding of the persisted percentage.
+ */
+export function findAllocationMismatches(
+  ctx: AllocationContext,
+  submitted: AllocationValues[],
+  recalculated: AllocationValues[]
+): AllocationMismatch[] {
+  const submittedIndex = indexAllocations(submitted)
+  const recalculatedIndex = indexAllocations(recalculated)
+  const mismatches: AllocationMismatch[] = []
+
+  for (const expected of recalculated) {
+    const actual = findAllocation(submittedIndex, expected.hierarchyPath, expected.period)
+    if (!actual) continue
+
+    const { hierarchyPath, period } = expected
+
+    if (actual.level !== expected.level) {
+      mismatches.push({ hierarchyPath, period, field: 'level', expected: expected.level, actual: actual.level })
+    }
+
+    const parentAmount = resolveParentAmount(ctx, recalculatedIndex, hierarchyPath, period)
+    const tolerance = Math.max(1, Math.ceil(parentAmount * (PERCENTAGE_PRECISION / 100)))
+
+    if (Math.abs(actual.amount - expected.amount) > tolerance) {
+      mismatches.push({ hierarchyPath, period, field: 'amount', expected: expected.amount, actual: actual.amount })
+    } else if (
+      actual.quantity !== expected.quantity &&
+      actual.quantity !== calculateQuantity(ctx, hierarchyPath, actual.amount)
+    ) {
+      mismatches.push({ hierarchyPath, period, field: 'quantity', expected: expected.quantity, actual: actual.quantity })
+    }
+  }
+
+  return mismatches
+}
+
+/**
+ * Rows that were already locked in `previous` but come back with another
+ * amount. A locked amount may only change in the save that locks the row.
+ */
+export function findLockedAmountChanges(
+  submitted: AllocationValues[],
+  previous: AllocationValues[]
+): AllocationMismatch[] {
+  const previousIndex = indexAllocations(previous)
+  const mismatches: AllocationMismatch[] = []
+
+  for (const actual of submitted) {
+    const before = findAllocation(previousIndex, actual.hierarchyPath, actual.period)
+    if (!actual.locked || !before?.locked || before.amount === actual.amount) continue
+
+    mismatches.push({
+      hierarchyPath: actual.hierarchyPath,
+      period: actual.period,
+      field: 'amount',
+      expected: before.amount,
+      actual: actual.amount
+    })
+  }
+
+  return mismatches
+}
@@ -36,7 +36,8 @@ export const authOptions: NextAuthOptions = {
         return {
           id: user.id,
           email: user.email,
-          name: user.name
+          name: user.name,
+          role: user.role
         }
       }
     })
@@ -51,12 +52,16 @@ export const authOptions: NextAuthOptions = {
     async jwt({ token, user }) {
       if (user) {
         token.id = user.id
+        token.role = user.role
       }
       return token
     },
     async session({ session, token }) {
       if (session.user) {
         session.user.id = token.id as string
+        // Tokens issued before roles existed carry none. The token's role may be
+        // stale, so authorization reads it from the database instead
+        session.user.role = token.role ?? 'member'
       }
       return session
     }
@@ -0,0 +1,140 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from './auth'
+import { prisma } from './prisma'
+import {
+  canDeleteCategory,
+  canDeleteSession,
+  canEditCategory,
+  canEditSession,
+  canViewCategory,
+  canViewSession,
+  isSessionCreator
+} from './policy'
+
+// The rules themselves live in ./policy; these helpers load the record and turn a refusal into a response
+export type SessionAccess = 'view' | 'edit' | 'delete'
+export type CategoryAccess = 'view' | 'edit' | 'delete'
+
+function findSession(sessionId: string) {
+  return prisma.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      category: true,
+      periodBudgets: true
+    }
+  })
+}
+
+export type AuthorizedSession = NonNullable<Awaited<ReturnType<typeof findSession>>>
+
+export type SessionAuthorization =
+  | { ok: true; userId: string; isCreator: boolean; budgetSession: AuthorizedSession }
+  | { ok: false; response: NextResponse }
+
+function findCategory(categoryId: string) {
+  return prisma.category.findUnique({
+    where: { id: categoryId }
+  })
+}
+
+export type AuthorizedCategory = NonNullable<Awaited<ReturnType<typeof findCategory>>>
+
+export type CategoryAuthorization =
+  | { ok: true; user: AuthorizedUser; category: AuthorizedCategory }
+  | { ok: false; response: NextResponse }
+
+// The role is read from the database, not the login token, so a demotion takes effect at once
+function findUser(userId: string) {
+  return prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, role: true }
+  })
+}
+
+export type AuthorizedUser = NonNullable<Awaited<ReturnType<typeof findUser>>>
+
+export type UserAuthorization =
+  | { ok: true; user: AuthorizedUser }
+  | { ok: false; response: NextResponse }
+
+function deny(error: string, status: number): { ok: false; response: NextResponse } {
+  return { ok: false, response: NextResponse.json({ error }, { status }) }
+}
+
+/**
+ * Resolves the signed-in user and the session and checks `access`.
+ * When `ok` is false, `response` is the 401/403/404 for the route to return.
+ */
+export async function authorizeSession(sessionId: string, access: SessionAccess): Promise<SessionAuthorization> {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return deny('Unauthorized', 401)
+  }
+
+  const userId = session.user.id
+  const budgetSession = await findSession(sessionId)
+
+  if (!budgetSession) {
+    return deny('Session not found', 404)
+  }
+
+  if (!canViewSession(userId, budgetSession)) {
+    return deny('このセッションは作成者が作業中です', 403)
+  }
+
+  if (access === 'edit' && !canEditSession(userId, budgetSession)) {
+    return deny('作成者のみがセッションを編集できます', 403)
+  }
+
+  if (access === 'delete' && !canDeleteSession(userId, budgetSession)) {
+    return deny('作成者のみがセッションを削除できます', 403)
+  }
+
+  return { ok: true, userId, isCreator: isSessionCreator(userId, budgetSession), budgetSession }
+}
+
+/**
+ * Resolves the signed-in user with their current role.
+ */
+export async function authorizeUser(): Promise<UserAuthorization> {
+  const session = await getServerSession(authOptions)
+
+  if (!session?.user?.id) {
+    return deny('Unauthorized', 401)
+  }
+
+  const user = await findUser(session.user.id)
+
+  if (!user) {
+    return deny('Unauthorized', 401)
+  }
+
+  return { ok: true, user }
+}
+
+/**
+ * Category counterpart of authorizeSession.
+ */
+export async function authorizeCategory(categoryId: string, access: CategoryAccess): Promise<CategoryAuthorization> {
+  const auth = await authorizeUser()
+  if (!auth.ok) return auth
+
+  const { user } = auth
+  const category = await findCategory(categoryId)
+
+  if (!category || !canViewCategory(user, category)) {
+    return deny('Category not found', 404)
+  }
+
+  if (access === 'edit' && !canEditCategory(user, category)) {
+    return deny('所有者または管理者のみがカテゴリを編集できます', 403)
+  }
+
+  if (access === 'delete' && !canDeleteCategory(user, category)) {
+    return deny('所有者または管理者のみがカテゴリを削除できます', 403)
+  }
+
+  return { ok: true, user, category }
+}
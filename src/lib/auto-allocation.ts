@@ -0,0 +1,145 @@
+import {
+  allocateSiblingGroup,
+  calculatePercentage,
+  collectLevelPaths,
+  getParentAmount,
+  getParentPath,
+  getPathLevel,
+  getSkusForPath,
+  findAllocation,
+  indexAllocations,
+  recalculateAllocations
+} from './allocation'
+import type { AllocationContext, AllocationStrategy, AllocationValues } from '@/types'
+
+/**
+ * Relative weight of a node among its siblings. `weightTable` holds the
+ * uploaded weights or historical amounts keyed by hierarchy path.
+ */
+export function getStrategyWeight(
+  ctx: AllocationContext,
+  path: string,
+  strategy: AllocationStrategy,
+  weightTable: Map<string, number> = new Map()
+): number {
+  switch (strategy) {
+    case 'sku_count':
+      return getSkusForPath(ctx, path).length
+    case 'unit_price':
+      return getSkusForPath(ctx, path).reduce((sum, sku) => sum + sku.unitPrice, 0)
+    case 'weights':
+    case 'historical':
+      return weightTable.get(path) || 0
+    default:
+      return 1
+  }
+}
+
+/**
+ * Allocates every node at `level` within its own parent node. Siblings whose
+ * weights are all zero fall back to an equal split. Locked siblings keep their
+ * amounts; with `onlyUnallocated`, siblings with a percentage also keep it.
+ * The rest of the parent's 100% is shared among the other nodes, including
+ * unlocked 0% rows, which are placeholders (as created with every new period).
+ */
+export function autoAllocateLevel(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  level: number,
+  period: string | null,
+  strategy: AllocationStrategy,
+  weightTable?: Map<string, number>,
+  onlyUnallocated = false
+): AllocationValues[] {
+  const index = indexAllocations(allocations.filter(a => a.period === period))
+  const groups = new Map<string | null, string[]>()
+
+  for (const path of collectLevelPaths(ctx, level)) {
+    const parentPath = getParentPath(path)
+    const siblings = groups.get(parentPath)
+    if (siblings) {
+      siblings.push(path)
+    } else {
+      groups.set(parentPath, [path])
+    }
+  }
+
+  const result: AllocationValues[] = []
+
+  for (const paths of Array.from(groups.values())) {
+    const parentAmount = getParentAmount(ctx, index, paths[0], period)
+    const stored = paths.map(path => findAllocation(index, path, period))
+    const existing = stored.map(allocation =>
+      allocation && (allocation.locked || (onlyUnallocated && allocation.percentage > 0)) ? allocation : undefined
+    )
+    const targets = paths.filter((_, i) => !existing[i])
+    const fixedPercentage = existing.reduce((sum, a) => {
+      if (!a) return sum
+      return sum + (a.locked ? calculatePercentage(parentAmount, a.amount) : a.percentage)
+    }, 0)
+    const available = Math.max(0, 100 - fixedPercentage)
+
+    const weights = targets.map(path => getStrategyWeight(ctx, path, strategy, weightTable))
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+    const targetPercentages = new Map(targets.map((path, i) => [
+      path,
+      totalWeight > 0 ? (weights[i] / totalWeight) * available : available / targets.length
+    ]))
+
+    const group = paths.map((path, i) => existing[i] ?? {
+      hierarchyPath: path,
+      level,
+      percentage: targetPercentages.get(path) ?? 0,
+      amount: 0,
+      quantity: 0,
+      period
+    })
+
+    result.push(...allocateSiblingGroup(ctx, parentAmount, group))
+  }
+
+  return result
+}
+
+/**
+ * Replaces one level of a period with an auto-allocation and recomputes the
+ * levels below it so the whole period stays consistent.
+ */
+export function applyAutoAllocation(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  level: number,
+  period: string | null,
+  strategy: AllocationStrategy,
+  weightTable?: Map<string, number>
+): AllocationValues[] {
+  const periodAllocations = allocations.filter(a => a.period === period)
+  const allocated = autoAllocateLevel(ctx, periodAllocations, level, period, strategy, weightTable)
+  const kept = periodAllocations.filter(a => getPathLevel(a.hierarchyPath) !== level)
+
+  return recalculateAllocations(ctx, [...kept, ...allocated])
+}
+
+/**
+ * Fills every level of a period from L1 down to the SKU level. Each level is
+ * allocated against the amounts just computed for the level above it.
+ */
+export function autoAllocateTree(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  period: string | null,
+  strategy: AllocationStrategy,
+  weightTable?: Map<string, number>,
+  onlyUnallocated = false
+): AllocationValues[] {
+  let current = allocations.filter(a => a.period === period)
+  const skuLevel = ctx.hierarchyDefinitions.length + 1
+
+  for (let level = 1; level <= skuLevel; level++) {
+    const allocated = autoAllocateLevel(ctx, current, level, period, strategy, weightTable, onlyUnallocated)
+    const allocatedPaths = new Set(allocated.map(a => a.hierarchyPath))
+    current = [...current.filter(a => !allocatedPaths.has(a.hierarchyPath)), ...allocated]
+  }
+
+  return recalculateAllocations(ctx, current)
+}
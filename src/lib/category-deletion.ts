@@ -0,0 +1,43 @@
+import { prisma } from './prisma'
+import type { CategoryDeletionPlan, CategoryDeletionSession } from '@/types'
+
+/**
+ * Lists the sessions and row counts that deleting the category would remove.
+ */
+export async function buildCategoryDeletionPlan(category: { id: string; name: string }): Promise<CategoryDeletionPlan> {
+  const sessions = await prisma.session.findMany({
+    where: { categoryId: category.id },
+    orderBy: { createdAt: 'desc' },
+    select: {
+      id: true,
+      name: true,
+      status: true,
+      _count: {
+        select: {
+          periodBudgets: true,
+          hierarchyDefinitions: true,
+          skuData: true,
+          allocations: true
+        }
+      }
+    }
+  })
+
+  const planned: CategoryDeletionSession[] = sessions.map(({ _count, ...s }) => ({ ...s, ..._count }))
+  const sum = (key: keyof typeof sessions[number]['_count']) =>
+    planned.reduce((total, s) => total + s[key], 0)
+
+  return {
+    categoryId: category.id,
+    categoryName: category.name,
+    sessions: planned,
+    totals: {
+      sessions: planned.length,
+      periodBudgets: sum('periodBudgets'),
+      hierarchyDefinitions: sum('hierarchyDefinitions'),
+      skuData: sum('skuData'),
+      allocations: sum('allocations')
+    },
+    confirmedSessions: planned.filter(s => s.status === 'confirmed')
+  }
+}
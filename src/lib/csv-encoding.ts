@@ -0,0 +1,78 @@
+import type { CsvEncoding } from '@/types'
+
+// Enough of the file to tell UTF-8 from Shift_JIS without buffering it all
+export const ENCODING_SAMPLE_BYTES = 64 * 1024
+
+const UTF8_BOM = [0xef, 0xbb, 0xbf]
+
+// TextDecoder labels; shift_jis decodes the CP932 extensions as well, and the UTF-8 decoder drops a BOM
+const DECODER_LABELS: Record<CsvEncoding, string> = {
+  'utf-8': 'utf-8',
+  'utf-8-bom': 'utf-8',
+  shift_jis: 'shift_jis'
+}
+
+/**
+ * Guesses the encoding from the start of a file: a BOM means UTF-8, bytes
+ * that are not valid UTF-8 mean Shift_JIS.
+ */
+export function detectCsvEncoding(sample: Uint8Array): CsvEncoding {
+  if (UTF8_BOM.every((byte, i) => sample[i] === byte)) return 'utf-8-bom'
+
+  try {
+    // stream: a character cut off at the end of the sample is not an error
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true })
+    return 'utf-8'
+  } catch {
+    return 'shift_jis'
+  }
+}
+
+/**
+ * Decodes a byte stream to text. With 'auto', the encoding is detected from
+ * the first ENCODING_SAMPLE_BYTES and reported through `onEncoding` before
+ * any text is produced.
+ */
+export async function* decodeCsvStream(
+  body: ReadableStream<Uint8Array>,
+  encoding: CsvEncoding | 'auto',
+  onEncoding?: (encoding: CsvEncoding) => void
+): AsyncGenerator<string> {
+  const reader = body.getReader()
+
+  try {
+    const sample: Uint8Array[] = []
+    let sampleBytes = 0
+    let done = false
+
+    while (sampleBytes < ENCODING_SAMPLE_BYTES) {
+      const result = await reader.read()
+      if (result.done) {
+        done = true
+        break
+      }
+      sample.push(result.value)
+      sampleBytes += result.value.byteLength
+    }
+
+    const head = Buffer.concat(sample)
+    const resolved = encoding === 'auto' ? detectCsvEncoding(head) : encoding
+    onEncoding?.(resolved)
+
+    const decoder = new TextDecoder(DECODER_LABELS[resolved])
+    const text = decoder.decode(head, { stream: true })
+    if (text) yield text
+
+    while (!done) {
+      const result = await reader.read()
+      if (result.done) break
+      const chunk = decoder.decode(result.value, { stream: true })
+      if (chunk) yield chunk
+    }
+
+    const rest = decoder.decode()
+    if (rest) yield rest
+  } finally {
+    reader.releaseLock()
+  }
+}
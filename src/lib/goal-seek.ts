@@ -0,0 +1,171 @@
+import {
+  PERCENTAGE_PRECISION,
+  calculatePercentage,
+  calculateQuantity,
+  findAllocation,
+  getParentAmount,
+  getPathLevel,
+  getPeriodBudget,
+  indexAllocations,
+  rebalanceSiblings,
+  recalculateAllocations,
+  upsertAllocation
+} from './allocation'
+import { calculatePeriodUnits } from './quantity-variance'
+import type { AllocationContext, AllocationValues, GoalSeekResult } from '@/types'
+
+// 2^48 yen is far beyond any real budget; a target still missed there is unreachable
+const MAX_DOUBLINGS = 48
+
+interface GoalSeekOutcome {
+  result: GoalSeekResult
+  allocations: AllocationValues[]
+}
+
+/**
+ * Smallest non-negative integer for which `reaches` holds, assuming it is
+ * monotonic. Doubles from `start` to find an upper bound, then bisects.
+ */
+function searchMinimum(start: number, reaches: (value: number) => boolean): number | null {
+  let high = Math.max(1, start)
+
+  for (let doublings = 0; !reaches(high); doublings++) {
+    if (doublings >= MAX_DOUBLINGS) return null
+    high *= 2
+  }
+
+  let low = 0
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2)
+    if (reaches(mid)) {
+      high = mid
+    } else {
+      low = mid + 1
+    }
+  }
+
+  return low
+}
+
+/**
+ * Units of one node, or of every SKU in the period when `path` is null.
+ */
+function measureQuantity(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  period: string | null,
+  path: string | null
+): number {
+  if (path === null) return calculatePeriodUnits(ctx, allocations, period)
+  return findAllocation(indexAllocations(allocations), path, period)?.quantity ?? 0
+}
+
+/**
+ * Finds the smallest period budget whose allocations, at their current
+ * percentages, yield at least `targetQuantity` units for the node or period.
+ */
+export function goalSeekBudget(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  period: string | null,
+  targetQuantity: number,
+  path: string | null
+): GoalSeekOutcome {
+  const periodAllocations = allocations.filter(a => a.period === period)
+  const currentBudget = getPeriodBudget(ctx, period)
+
+  const recalculateFor = (budget: number) =>
+    recalculateAllocations({ ...ctx, periodBudgets: [{ period, budget }] }, periodAllocations)
+
+  const required = searchMinimum(currentBudget, budget =>
+    measureQuantity(ctx, recalculateFor(budget), period, path) >= targetQuantity
+  )
+  const requiredBudget = required ?? currentBudget
+  const solved = recalculateFor(requiredBudget)
+
+  return {
+    result: {
+      solveFor: 'budget',
+      period,
+      hierarchyPath: path,
+      targetQuantity,
+      reachable: required !== null,
+      currentBudget,
+      requiredBudget,
+      currentQuantity: measureQuantity(ctx, periodAllocations, period, path),
+      achievedQuantity: measureQuantity(ctx, solved, period, path),
+      currentPercentage: null,
+      requiredPercentage: null
+    },
+    allocations: solved
+  }
+}
+
+/**
+ * Finds the node percentage that yields at least `targetQuantity` units within
+ * its current parent amount. The percentage is rounded up to the stored
+ * precision so the persisted value still reaches the target; with `rebalance`
+ * the unlocked siblings absorb the difference.
+ */
+export function goalSeekPercentage(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  period: string | null,
+  targetQuantity: number,
+  path: string,
+  rebalance: boolean
+): GoalSeekOutcome {
+  const periodAllocations = allocations.filter(a => a.period === period)
+  const node = findAllocation(indexAllocations(periodAllocations), path, period)
+  const parentAmount = getParentAmount(ctx, periodAllocations, path, period)
+
+  const requiredAmount = searchMinimum(node?.amount ?? 0, amount =>
+    calculateQuantity(ctx, path, amount) >= targetQuantity
+  )
+  const exactPercentage = requiredAmount !== null && parentAmount > 0
+    ? calculatePercentage(parentAmount, requiredAmount)
+    : null
+  const reachable = exactPercentage !== null && requiredAmount !== null && requiredAmount <= parentAmount
+
+  const step = PERCENTAGE_PRECISION * 2
+  const requiredPercentage = exactPercentage === null
+    ? null
+    : reachable
+      ? Math.min(100, Math.round(Math.ceil(exactPercentage / step - 1e-9) * step * 1e8) / 1e8)
+      : exactPercentage
+
+  let solved = periodAllocations
+
+  if (reachable && requiredPercentage !== null) {
+    let updated = upsertAllocation(periodAllocations, {
+      hierarchyPath: path,
+      level: getPathLevel(path),
+      amount: 0,
+      quantity: 0,
+      period,
+      ...node,
+      percentage: requiredPercentage
+    })
+    if (rebalance) {
+      updated = rebalanceSiblings(ctx, updated, path, period)
+    }
+    solved = recalculateAllocations(ctx, updated)
+  }
+
+  return {
+    result: {
+      solveFor: 'percentage',
+      period,
+      hierarchyPath: path,
+      targetQuantity,
+      reachable,
+      currentBudget: getPeriodBudget(ctx, period),
+      requiredBudget: getPeriodBudget(ctx, period),
+      currentQuantity: node?.quantity ?? 0,
+      achievedQuantity: measureQuantity(ctx, solved, period, path),
+      currentPercentage: node?.percentage ?? null,
+      requiredPercentage
+    },
+    allocations: solved
+  }
+}
@@ -0,0 +1,79 @@
+import { z } from 'zod'
+import type { ImportColumnMapping } from '@/types'
+
+const columnName = z.string().trim().min(1)
+
+export const importColumnMappingSchema = z.object({
+  skuCode: columnName,
+  unitPrice: columnName,
+  caseSize: columnName.nullable().optional(),
+  minOrderQty: columnName.nullable().optional(),
+  hierarchy: z.array(columnName)
+}).refine(mapping => {
+  const used = getMappedColumns(mapping)
+  return new Set(used).size === used.length
+}, {
+  message: 'Each column can only be mapped once'
+})
+
+// Column names the default mapping recognizes, in order of preference
+const SKU_CODE_COLUMNS = ['sku_code', 'sku', 'skucode']
+const UNIT_PRICE_COLUMNS = ['unitprice', 'unit_price', 'price', 'cost_price']
+const CASE_SIZE_COLUMNS = ['case_size']
+const MIN_ORDER_QTY_COLUMNS = ['min_order_qty']
+
+export function getMappedColumns(mapping: ImportColumnMapping): string[] {
+  return [
+    mapping.skuCode,
+    mapping.unitPrice,
+    ...(mapping.caseSize ? [mapping.caseSize] : []),
+    ...(mapping.minOrderQty ? [mapping.minOrderQty] : []),
+    ...mapping.hierarchy
+  ]
+}
+
+/**
+ * The mapping used when none is chosen: known column names for the SKU
+ * fields and every other column as a hierarchy level in file order.
+ */
+export function defaultColumnMapping(columns: string[]): ImportColumnMapping {
+  const find = (candidates: string[]) => candidates.find(name => columns.includes(name)) ?? null
+  const skuCode = find(SKU_CODE_COLUMNS)
+  const unitPrice = find(UNIT_PRICE_COLUMNS)
+  const caseSize = find(CASE_SIZE_COLUMNS)
+  const minOrderQty = find(MIN_ORDER_QTY_COLUMNS)
+  const known = [...SKU_CODE_COLUMNS, ...UNIT_PRICE_COLUMNS, ...CASE_SIZE_COLUMNS, ...MIN_ORDER_QTY_COLUMNS]
+
+  return {
+    skuCode: skuCode ?? 'sku_code',
+    unitPrice: unitPrice ?? 'unitprice',
+    caseSize,
+    minOrderQty,
+    hierarchy: columns.filter(col => !known.includes(col))
+  }
+}
+
+export function findMissingColumns(mapping: ImportColumnMapping, columns: string[]): string[] {
+  return getMappedColumns(mapping).filter(col => !columns.includes(col))
+}
+
+// A mapping chosen for this file, else the category's saved one
+export interface ColumnMappingChoice {
+  mapping: ImportColumnMapping | null
+  saved: ImportColumnMapping | null
+}
+
+/**
+ * Mapping to suggest for a file: the category's saved mapping when the file
+ * has all of its columns, otherwise the default.
+ */
+export function suggestColumnMapping(columns: string[], saved: ImportColumnMapping | null): ImportColumnMapping {
+  return saved && findMissingColumns(saved, columns).length === 0 ? saved : defaultColumnMapping(columns)
+}
+
+/**
+ * The mapping an import reads a file with: the chosen one as is, otherwise the suggestion.
+ */
+export function resolveColumnMapping(columns: string[], choice: ColumnMappingChoice): ImportColumnMapping {
+  return choice.mapping ?? suggestColumnMapping(columns, choice.saved)
+}
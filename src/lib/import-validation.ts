@@ -0,0 +1,183 @@
+import { defaultColumnMapping, findMissingColumns } from './import-mapping'
+import type {
+  ImportColumnMapping,
+  ImportIssue,
+  ImportValidationMode,
+  ImportValidationReport,
+  SkuImportRow
+} from '@/types'
+
+export type CsvRow = Record<string, string | undefined>
+
+export const MAX_HIERARCHY_LEVELS = 6
+const MAX_REPORTED_ISSUES = 1000
+
+const INTEGER_PATTERN = /^\d+$/
+
+const formatRow = (row: number) => `${row}行目`
+
+/**
+ * Validates CSV rows one at a time so large files can be checked while they
+ * stream in. Create one per file; it remembers SKU codes to catch duplicates.
+ * Without a mapping the columns are read by their default names.
+ */
+export function createImportValidator(
+  columns: string[],
+  mode: ImportValidationMode,
+  mapping: ImportColumnMapping = defaultColumnMapping(columns)
+) {
+  const hierarchyColumns = mapping.hierarchy
+  const issues: ImportIssue[] = []
+  const seenSkuCodes = new Map<string, number>()
+  let errorCount = 0
+  let warningCount = 0
+  let totalRows = 0
+  let validRows = 0
+  let fileError = false
+
+  const addIssue = (issue: ImportIssue) => {
+    if (issue.severity === 'error') errorCount++
+    else warningCount++
+    if (issues.length < MAX_REPORTED_ISSUES) issues.push(issue)
+  }
+
+  const missingColumns = findMissingColumns(mapping, columns)
+  if (missingColumns.length > 0) {
+    fileError = true
+    addIssue({
+      type: 'missing_columns',
+      severity: 'error',
+      row: null,
+      column: null,
+      skuCode: null,
+      message: `カラム（${missingColumns.join(', ')}）がファイルにありません`
+    })
+  }
+
+  if (hierarchyColumns.length > MAX_HIERARCHY_LEVELS) {
+    fileError = true
+    addIssue({
+      type: 'too_many_levels',
+      severity: 'error',
+      row: null,
+      column: null,
+      skuCode: null,
+      message: `階層カラムが${hierarchyColumns.length}個あります（最大${MAX_HIERARCHY_LEVELS}階層）`
+    })
+  }
+
+  // Returns the SKU when the row has no errors
+  const validateRow = (row: CsvRow): SkuImportRow | null => {
+    totalRows++
+    const line = totalRows + 1
+    const skuCode = row[mapping.skuCode]?.trim() || null
+    const rowIssue = (issue: Omit<ImportIssue, 'row' | 'skuCode'>) => addIssue({ ...issue, row: line, skuCode })
+    const errorsBefore = errorCount
+
+    if (!skuCode) {
+      rowIssue({ type: 'missing_sku_code', severity: 'error', column: mapping.skuCode, message: `${formatRow(line)}: ${mapping.skuCode}が空です` })
+    } else if (seenSkuCodes.has(skuCode)) {
+      rowIssue({
+        type: 'duplicate_sku_code',
+        severity: 'error',
+        column: mapping.skuCode,
+        message: `${formatRow(line)}: ${mapping.skuCode}「${skuCode}」は${formatRow(seenSkuCodes.get(skuCode)!)}と重複しています`
+      })
+    } else {
+      seenSkuCodes.set(skuCode, line)
+    }
+
+    const price = row[mapping.unitPrice]?.trim() ?? ''
+    if (!INTEGER_PATTERN.test(price)) {
+      rowIssue({
+        type: 'invalid_price',
+        severity: 'error',
+        column: mapping.unitPrice,
+        message: price
+          ? `${formatRow(line)}: ${mapping.unitPrice}「${price}」は0以上の整数ではありません`
+          : `${formatRow(line)}: ${mapping.unitPrice}が空です`
+      })
+    }
+
+    // Order constraints are optional, so a bad value is dropped rather than rejecting the row
+    const constraints: Pick<SkuImportRow, 'caseSize' | 'minOrderQty'> = {}
+    for (const key of ['caseSize', 'minOrderQty'] as const) {
+      const column = mapping[key]
+      if (!column) continue
+      const value = row[column]?.trim()
+      if (!value) continue
+      if (INTEGER_PATTERN.test(value) && parseInt(value) > 0) {
+        constraints[key] = parseInt(value)
+      } else {
+        rowIssue({
+          type: 'invalid_order_constraint',
+          severity: 'warning',
+          column,
+          message: `${formatRow(line)}: ${column}「${value}」は1以上の整数ではないため無視します`
+        })
+      }
+    }
+
+    const hierarchyValues: Record<string, string> = {}
+    hierarchyColumns.forEach(col => {
+      const value = row[col]?.trim()
+      if (!value) {
+        rowIssue({
+          type: 'empty_hierarchy_value',
+          severity: 'warning',
+          column: col,
+          message: `${formatRow(line)}: ${col}が空のため、この階層を飛ばして配置されます`
+        })
+      } else if (value.includes('/')) {
+        rowIssue({
+          type: 'invalid_hierarchy_value',
+          severity: 'error',
+          column: col,
+          message: `${formatRow(line)}: ${col}「${value}」に「/」は使用できません`
+        })
+      } else {
+        hierarchyValues[col] = value
+      }
+    })
+
+    if (skuCode?.includes('/')) {
+      rowIssue({
+        type: 'invalid_hierarchy_value',
+        severity: 'error',
+        column: mapping.skuCode,
+        message: `${formatRow(line)}: ${mapping.skuCode}「${skuCode}」に「/」は使用できません`
+      })
+    }
+
+    if (fileError || errorCount > errorsBefore || !skuCode) return null
+
+    validRows++
+    return {
+      skuCode,
+      unitPrice: parseInt(price),
+      ...constraints,
+      hierarchyValues
+    }
+  }
+
+  const report = (): ImportValidationReport => ({
+    mode,
+    valid: !fileError && validRows > 0 && (mode === 'lenient' || errorCount === 0),
+    totalRows,
+    validRows,
+    rejectedRows: totalRows - validRows,
+    errorCount,
+    warningCount,
+    issues,
+    truncated: errorCount + warningCount > issues.length
+  })
+
+  return {
+    hierarchyColumns,
+    // File-level problems (missing columns, too many levels) reject the file in either mode
+    fileError,
+    hasErrors: () => errorCount > 0,
+    validateRow,
+    report
+  }
+}
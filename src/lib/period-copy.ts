@@ -0,0 +1,72 @@
+import {
+  buildPlaceholderAllocations,
+  collectHierarchyPaths,
+  collectLevelPaths,
+  computeAllocationByAmount,
+  constrainQuantity,
+  getSkusForPath
+} from './allocation'
+import type { AllocationContext, AllocationValues } from '@/types'
+
+export interface PeriodCopy {
+  allocations: AllocationValues[]
+  // Source paths that no longer exist in the SKU data
+  droppedPaths: string[]
+  // Current nodes the source period had no allocation for
+  unallocatedPaths: string[]
+}
+
+/**
+ * Copies a period's allocations into `period` for the current SKU data.
+ * Percentages carry over as they are; values that are absolute in this
+ * planning mode (locked amounts, bottom-up SKU quantities) are multiplied by
+ * `scale`, the ratio of the new budget to the source budget. Missing nodes
+ * start as placeholders. Recalculate the result against the new budget.
+ */
+export function copyPeriodAllocations(
+  ctx: AllocationContext,
+  source: AllocationValues[],
+  period: string,
+  scale: number
+): PeriodCopy {
+  const skuLevel = ctx.hierarchyDefinitions.length + 1
+  const currentPaths = new Set([...collectHierarchyPaths(ctx), ...collectLevelPaths(ctx, skuLevel)])
+
+  const kept = source.filter(a => currentPaths.has(a.hierarchyPath))
+  const droppedPaths = source.filter(a => !currentPaths.has(a.hierarchyPath)).map(a => a.hierarchyPath)
+
+  const copied = kept.map(a => {
+    if (ctx.planningMode === 'bottom_up') {
+      const sku = getSkusForPath(ctx, a.hierarchyPath)[0]
+      const quantity = Math.round(a.quantity * scale)
+      return {
+        ...a,
+        period,
+        quantity: a.level === skuLevel && sku ? constrainQuantity(sku, quantity) : quantity
+      }
+    }
+
+    if (a.locked) {
+      return {
+        ...computeAllocationByAmount(ctx, [], a.hierarchyPath, period, Math.round(a.amount * scale)),
+        locked: true
+      }
+    }
+
+    return { ...a, period }
+  })
+
+  const copiedPaths = new Set(kept.map(a => a.hierarchyPath))
+  const placeholders = buildPlaceholderAllocations(ctx, period).filter(a => !copiedPaths.has(a.hierarchyPath))
+
+  // Bottom-up groups are derived, so only SKUs without a quantity count as unallocated
+  const unallocatedPaths = ctx.planningMode === 'bottom_up'
+    ? collectLevelPaths(ctx, skuLevel).filter(path => !copiedPaths.has(path))
+    : placeholders.map(a => a.hierarchyPath)
+
+  return {
+    allocations: [...copied, ...placeholders],
+    droppedPaths,
+    unallocatedPaths
+  }
+}
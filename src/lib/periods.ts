@@ -0,0 +1,89 @@
+import { z } from 'zod'
+import { summarizeAllocationChanges } from './allocation'
+import type { AllocationValues, PeriodRange } from '@/types'
+
+const dateString = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date')
+
+export const periodDetailsSchema = z.object({
+  startDate: dateString.nullable().optional(),
+  endDate: dateString.nullable().optional(),
+  granularity: z.enum(['month', 'quarter', 'half', 'season']).nullable().optional(),
+  fiscalYear: z.number().int().min(1900).max(9999).nullable().optional()
+})
+
+export function toDateKey(value: Date | string): string {
+  return typeof value === 'string' ? value.slice(0, 10) : value.toISOString().slice(0, 10)
+}
+
+/**
+ * Chronological order: the default (null) period first, then dated periods
+ * by start date, then undated periods by name.
+ */
+export function comparePeriods(a: PeriodRange, b: PeriodRange): number {
+  if (a.period === null) return b.period === null ? 0 : -1
+  if (b.period === null) return 1
+
+  if (a.startDate && b.startDate) {
+    return toDateKey(a.startDate).localeCompare(toDateKey(b.startDate)) || a.period.localeCompare(b.period)
+  }
+  if (a.startDate) return -1
+  if (b.startDate) return 1
+
+  return a.period.localeCompare(b.period)
+}
+
+export function sortPeriods<T extends PeriodRange>(periods: T[]): T[] {
+  return [...periods].sort(comparePeriods)
+}
+
+/**
+ * Returns an error message when the range is incomplete or inverted.
+ */
+export function validatePeriodRange(range: PeriodRange): string | null {
+  if (!range.startDate !== !range.endDate) return 'Start date and end date must be set together'
+  if (range.startDate && range.endDate && toDateKey(range.startDate) > toDateKey(range.endDate)) {
+    return 'Start date must not be after end date'
+  }
+  return null
+}
+
+/**
+ * First other period whose dates intersect `range` (both ends inclusive).
+ * Undated periods never overlap.
+ */
+export function findOverlappingPeriod<T extends PeriodRange>(range: PeriodRange, others: T[]): T | undefined {
+  if (!range.startDate || !range.endDate) return undefined
+
+  const start = toDateKey(range.startDate)
+  const end = toDateKey(range.endDate)
+
+  return others.find(other =>
+    other.period !== range.period &&
+    other.startDate &&
+    other.endDate &&
+    toDateKey(other.startDate) <= end &&
+    start <= toDateKey(other.endDate)
+  )
+}
+
+/**
+ * Periods among `periods` whose allocations differ between `before` and
+ * `after`: rows added, removed, or with a different amount, percentage,
+ * quantity or lock.
+ */
+export function findChangedPeriods(
+  periods: Array<string | null>,
+  before: AllocationValues[],
+  after: AllocationValues[]
+): Array<string | null> {
+  return periods.filter(period => {
+    const previous = before.filter(a => a.period === period)
+    const next = after.filter(a => a.period === period)
+
+    if (previous.length !== next.length) return true
+    if (summarizeAllocationChanges(previous, next).changed > 0) return true
+
+    const previousPaths = new Map(previous.map(a => [a.hierarchyPath, !!a.locked]))
+    return next.some(a => previousPaths.get(a.hierarchyPath) !== !!a.locked)
+  })
+}
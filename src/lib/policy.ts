@@ -0,0 +1,118 @@
+import type { Prisma } from '@prisma/client'
+import type { CategoryPermissions, PeriodStatus, SessionPermissions, UserRole } from '@/types'
+
+// Pure rules shared by the route handlers and the UI. Keep this file free of
+// server-only imports so client components can use it too.
+
+type UserId = string | null | undefined
+
+interface PolicyUser {
+  id: string
+  role: UserRole
+}
+
+type Actor = PolicyUser | null | undefined
+
+interface PolicyCategory {
+  userId: string
+}
+
+interface PolicyPeriod {
+  period: string | null
+  status: PeriodStatus
+}
+
+interface PolicySession {
+  status: string
+  category: PolicyCategory
+  periodBudgets?: PolicyPeriod[]
+}
+
+export function isAdmin(user: Actor): boolean {
+  return user?.role === 'admin'
+}
+
+// Every signed-in user can browse categories
+export function canViewCategory(user: Actor, _category: PolicyCategory): boolean {
+  return !!user
+}
+
+export function canEditCategory(user: Actor, category: PolicyCategory): boolean {
+  return !!user && (category.userId === user.id || isAdmin(user))
+}
+
+export function canDeleteCategory(user: Actor, category: PolicyCategory): boolean {
+  return canEditCategory(user, category)
+}
+
+// Deleting a category that still holds confirmed sessions
+export function canForceDeleteCategory(user: Actor, category: PolicyCategory): boolean {
+  return canDeleteCategory(user, category) && isAdmin(user)
+}
+
+// The category owner is the creator of every session in it, so admins do not create sessions for others
+export function canCreateSession(user: Actor, category: PolicyCategory): boolean {
+  return !!user && category.userId === user.id
+}
+
+export function isSessionCreator(userId: UserId, session: PolicySession): boolean {
+  return !!userId && session.category.userId === userId
+}
+
+// Drafts are the creator's work in progress; confirmed and archived sessions are public
+export function canViewSession(userId: UserId, session: PolicySession): boolean {
+  return !!userId && (session.status !== 'draft' || isSessionCreator(userId, session))
+}
+
+export function canEditSession(userId: UserId, session: PolicySession): boolean {
+  return isSessionCreator(userId, session)
+}
+
+export function canDeleteSession(userId: UserId, session: PolicySession): boolean {
+  return isSessionCreator(userId, session)
+}
+
+export function canEditPeriod(userId: UserId, session: PolicySession, periodBudget: PolicyPeriod): boolean {
+  return canEditSession(userId, session) && periodBudget.status !== 'closed'
+}
+
+export function canDeletePeriod(userId: UserId, session: PolicySession, periodBudget: PolicyPeriod): boolean {
+  return canEditPeriod(userId, session, periodBudget)
+}
+
+// Allocations follow their period; a period without a budget row has nothing to close
+export function canEditAllocation(userId: UserId, session: PolicySession, period: string | null): boolean {
+  const periodBudget = session.periodBudgets?.find(pb => pb.period === period)
+  return periodBudget ? canEditPeriod(userId, session, periodBudget) : canEditSession(userId, session)
+}
+
+/**
+ * Same rule as canViewSession, as a Prisma filter for listing sessions.
+ */
+export function viewableSessionsWhere(userId: string): Prisma.SessionWhereInput {
+  return {
+    OR: [
+      { status: { in: ['confirmed', 'archived'] } },
+      { status: 'draft', category: { userId } }
+    ]
+  }
+}
+
+export function getCategoryPermissions(user: Actor, category: PolicyCategory): CategoryPermissions {
+  return {
+    canEdit: canEditCategory(user, category),
+    canDelete: canDeleteCategory(user, category),
+    canForceDelete: canForceDeleteCategory(user, category),
+    canCreateSession: canCreateSession(user, category)
+  }
+}
+
+export function getSessionPermissions(userId: UserId, session: PolicySession): SessionPermissions {
+  return {
+    canEdit: canEditSession(userId, session),
+    canDelete: canDeleteSession(userId, session),
+    editablePeriods: (session.periodBudgets ?? [])
+      .filter(pb => canEditPeriod(userId, session, pb))
+      .map(pb => pb.period)
+  }
+}
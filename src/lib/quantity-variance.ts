@@ -0,0 +1,74 @@
+import { buildSkuPath, calculateUnitCost, findAllocation, getPeriodBudget, indexAllocations } from './allocation'
+import type { AllocationContext, AllocationValues, QuantityVariance, QuantityVarianceReport } from '@/types'
+
+/**
+ * Units ordered for one SKU in a period: taken from the deepest allocation on
+ * its path, which is the most specific split of the budget.
+ */
+function getOrderedUnits(
+  ctx: AllocationContext,
+  index: Map<string, AllocationValues>,
+  sku: AllocationContext['skuData'][number],
+  period: string | null
+): number {
+  const pathParts = buildSkuPath(sku, ctx.hierarchyDefinitions).split('/')
+
+  for (let i = pathParts.length; i > 0; i--) {
+    const allocation = findAllocation(index, pathParts.slice(0, i).join('/'), period)
+    if (!allocation) continue
+    return i === pathParts.length ? allocation.quantity : allocation.skuQuantities?.[sku.skuCode] ?? 0
+  }
+
+  return 0
+}
+
+/**
+ * Total units ordered across all SKUs in a period.
+ */
+export function calculatePeriodUnits(
+  ctx: AllocationContext,
+  allocations: AllocationValues[],
+  period: string | null
+): number {
+  const index = indexAllocations(allocations.filter(a => a.period === period))
+  return ctx.skuData.reduce((sum, sku) => sum + getOrderedUnits(ctx, index, sku, period), 0)
+}
+
+/**
+ * Budget left over (positive) or overspent (negative) once allocations are
+ * rounded to whole units, case packs and MOQs, per node and per period.
+ */
+export function buildQuantityVarianceReport(
+  ctx: AllocationContext,
+  allocations: AllocationValues[]
+): QuantityVarianceReport {
+  const periods = Array.from(new Set([
+    ...ctx.periodBudgets.map(pb => pb.period),
+    ...allocations.map(a => a.period)
+  ]))
+
+  return {
+    periods: periods.map(period => {
+      const periodAllocations = allocations.filter(a => a.period === period)
+      const index = indexAllocations(periodAllocations)
+
+      const nodes: QuantityVariance[] = periodAllocations
+        .map(allocation => {
+          const cost = calculateUnitCost(ctx, allocation)
+          return {
+            hierarchyPath: allocation.hierarchyPath,
+            period,
+            amount: allocation.amount,
+            cost,
+            variance: allocation.amount - cost
+          }
+        })
+        .filter(node => node.variance !== 0)
+
+      const budget = getPeriodBudget(ctx, period)
+      const cost = ctx.skuData.reduce((sum, sku) => sum + getOrderedUnits(ctx, index, sku, period) * sku.unitPrice, 0)
+
+      return { period, budget, cost, variance: budget - cost, nodes }
+    })
+  }
+}
@@ -0,0 +1,41 @@
+import { distributeAmount } from './allocation'
+import { sortPeriods } from './periods'
+import type { PeriodRange, RoundingMode, SeasonalityWeight } from '@/types'
+
+/**
+ * Splits the annual budget across the periods in proportion to their weights.
+ * Integer yen are handed out with the session's rounding mode, so the period
+ * budgets always add up to the annual total; plain flooring would lose yen, so
+ * floor sessions use the largest remainder split here.
+ */
+export function spreadAnnualBudget(
+  annualBudget: number,
+  weights: SeasonalityWeight[],
+  roundingMode: RoundingMode
+): Array<{ period: string; budget: number }> {
+  const totalWeight = weights.reduce((sum, w) => sum + w.weight, 0)
+  if (totalWeight <= 0) return weights.map(w => ({ period: w.period, budget: 0 }))
+
+  const budgets = distributeAmount(
+    annualBudget,
+    weights.map(w => (w.weight / totalWeight) * 100),
+    roundingMode === 'floor' ? 'largest_remainder' : roundingMode
+  )
+
+  return weights.map((w, i) => ({ period: w.period, budget: budgets[i] }))
+}
+
+/**
+ * Weights taken from another session's period budgets, matched by position in
+ * chronological order (first month of last year to the first month of this
+ * year). Returns null when the number of periods differs.
+ */
+export function deriveWeightsFromSession(
+  periods: string[],
+  sourcePeriods: Array<PeriodRange & { budget: number }>
+): SeasonalityWeight[] | null {
+  const source = sortPeriods(sourcePeriods).filter(pb => pb.period !== null)
+  if (source.length !== periods.length) return null
+
+  return periods.map((period, i) => ({ period, weight: source[i].budget }))
+}
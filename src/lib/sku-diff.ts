@@ -0,0 +1,129 @@
+import {
+  buildPlaceholderAllocations,
+  buildSkuPath,
+  collectHierarchyPaths,
+  collectLevelPaths,
+  getParentPath,
+  recalculateAllocations
+} from './allocation'
+import type { AllocationContext, AllocationSku, AllocationValues, SkuDataDiff, SkuDiffEntry } from '@/types'
+
+function allPaths(ctx: AllocationContext): Set<string> {
+  return new Set([
+    ...collectHierarchyPaths(ctx),
+    ...collectLevelPaths(ctx, ctx.hierarchyDefinitions.length + 1)
+  ])
+}
+
+function ancestorPaths(path: string): string[] {
+  const ancestors: string[] = []
+  for (let parent = getParentPath(path); parent !== null; parent = getParentPath(parent)) {
+    ancestors.push(parent)
+  }
+  return ancestors
+}
+
+function sameConstraints(a: AllocationSku, b: AllocationSku): boolean {
+  return (a.caseSize ?? null) === (b.caseSize ?? null) && (a.minOrderQty ?? null) === (b.minOrderQty ?? null)
+}
+
+/**
+ * Compares the stored SKUs (`current`) with a re-imported file (`next`).
+ * Both contexts must share the same hierarchy definitions.
+ */
+export function diffSkuData(current: AllocationContext, next: AllocationContext): SkuDataDiff {
+  const definitions = current.hierarchyDefinitions
+  const currentSkus = new Map(current.skuData.map(sku => [sku.skuCode, sku]))
+  const nextSkus = new Map(next.skuData.map(sku => [sku.skuCode, sku]))
+  const entry = (sku: AllocationSku): SkuDiffEntry => ({
+    skuCode: sku.skuCode,
+    path: buildSkuPath(sku, definitions),
+    unitPrice: sku.unitPrice
+  })
+
+  const diff: SkuDataDiff = {
+    added: [],
+    removed: [],
+    priceChanged: [],
+    moved: [],
+    unchanged: 0,
+    removedPaths: [],
+    addedPaths: [],
+    reviewPaths: []
+  }
+  // SKU paths whose group totals change
+  const affected = new Set<string>()
+
+  for (const sku of next.skuData) {
+    const previous = currentSkus.get(sku.skuCode)
+    const added = entry(sku)
+
+    if (!previous) {
+      diff.added.push(added)
+      affected.add(added.path)
+      continue
+    }
+
+    const before = entry(previous)
+    const moved = before.path !== added.path
+    const priceChanged = previous.unitPrice !== sku.unitPrice
+
+    if (moved) {
+      diff.moved.push({ ...added, previousPath: before.path })
+      affected.add(before.path)
+    }
+    if (priceChanged) {
+      diff.priceChanged.push({ ...added, previousUnitPrice: previous.unitPrice })
+    }
+    if (moved || priceChanged || !sameConstraints(previous, sku)) {
+      affected.add(added.path)
+    } else {
+      diff.unchanged++
+    }
+  }
+
+  for (const sku of current.skuData) {
+    if (!nextSkus.has(sku.skuCode)) {
+      const removed = entry(sku)
+      diff.removed.push(removed)
+      affected.add(removed.path)
+    }
+  }
+
+  const currentPaths = allPaths(current)
+  const nextPaths = allPaths(next)
+  diff.removedPaths = Array.from(currentPaths).filter(path => !nextPaths.has(path))
+  diff.addedPaths = Array.from(nextPaths).filter(path => !currentPaths.has(path))
+
+  const review = new Set<string>()
+  for (const path of affected) {
+    for (const ancestor of ancestorPaths(path)) {
+      if (currentPaths.has(ancestor) && nextPaths.has(ancestor)) review.add(ancestor)
+    }
+  }
+  diff.reviewPaths = Array.from(review)
+
+  return diff
+}
+
+/**
+ * Carries allocations over to the re-imported SKU data: removed nodes are
+ * dropped, new nodes start as placeholders and everything else keeps its
+ * percentage, then amounts and quantities are recalculated for `next`.
+ */
+export function reconcileAllocations(
+  next: AllocationContext,
+  allocations: AllocationValues[],
+  diff: SkuDataDiff
+): AllocationValues[] {
+  const removedPaths = new Set(diff.removedPaths)
+  const addedPaths = new Set(diff.addedPaths)
+
+  const kept = allocations.filter(a => !removedPaths.has(a.hierarchyPath))
+  const periods = new Set(allocations.map(a => a.period))
+  const placeholders = Array.from(periods).flatMap(period =>
+    buildPlaceholderAllocations(next, period).filter(a => addedPaths.has(a.hierarchyPath))
+  )
+
+  return recalculateAllocations(next, [...kept, ...placeholders])
+}
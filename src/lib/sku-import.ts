@@ -0,0 +1,229 @@
+import { Readable, pipeline } from 'stream'
+import { Prisma } from '@prisma/client'
+import Papa from 'papaparse'
+import { prisma } from './prisma'
+import { decodeCsvStream } from './csv-encoding'
+import { resolveColumnMapping } from './import-mapping'
+import { createImportValidator } from './import-validation'
+import type { ColumnMappingChoice } from './import-mapping'
+import type { CsvRow } from './import-validation'
+import type {
+  CsvEncoding,
+  ImportValidationMode,
+  ImportValidationReport,
+  SkuImportResult,
+  SkuImportRow
+} from '@/types'
+
+export const SKU_IMPORT_BATCH_SIZE = 1000
+
+// Large extracts take longer than Prisma's default 5s interactive transaction
+export const IMPORT_TIMEOUT_MS = 5 * 60 * 1000
+
+const NO_MAPPING: ColumnMappingChoice = { mapping: null, saved: null }
+
+export interface CsvReadOptions {
+  // Detected from the start of the file when omitted
+  encoding?: CsvEncoding | 'auto'
+  // NFKC: full-width letters, digits and symbols become half-width, half-width katakana full-width
+  normalize?: boolean
+  onEncoding?: (encoding: CsvEncoding) => void
+}
+
+const normalizeText = (value: string) => value.normalize('NFKC')
+
+/**
+ * Parses a CSV byte stream row by row; rows are objects keyed by header.
+ */
+export function readCsvRows(body: ReadableStream<Uint8Array>, options: CsvReadOptions = {}): AsyncIterable<CsvRow> {
+  const parser = Papa.parse(Papa.NODE_STREAM_INPUT, {
+    header: true,
+    skipEmptyLines: 'greedy',
+    ...(options.normalize && { transformHeader: normalizeText, transform: normalizeText })
+  })
+
+  // pipeline destroys the parser when the upload fails, so iterating the rows
+  // rejects instead of waiting forever; the error surfaces there, not in the callback
+  return pipeline(
+    Readable.from(decodeCsvStream(body, options.encoding ?? 'auto', options.onEncoding)),
+    parser,
+    () => {}
+  )
+}
+
+/**
+ * Reads the header and the first `limit` rows, then stops parsing.
+ */
+export async function previewCsvRows(
+  rows: AsyncIterable<CsvRow>,
+  limit: number
+): Promise<{ columns: string[]; rows: Array<Record<string, string>> }> {
+  let columns: string[] = []
+  const preview: Array<Record<string, string>> = []
+
+  for await (const row of rows) {
+    if (preview.length === 0) columns = Object.keys(row)
+    preview.push(Object.fromEntries(columns.map(col => [col, row[col] ?? ''])))
+    if (preview.length >= limit) break
+  }
+
+  return { columns, rows: preview }
+}
+
+export type SkuImportOutcome =
+  | { ok: true; result: SkuImportResult }
+  | { ok: false; error: string; report?: ImportValidationReport }
+
+// Thrown inside the import transaction to roll back a rejected file
+class ImportRejectedError extends Error {
+  constructor(readonly report: ImportValidationReport) {
+    super('CSV file has invalid rows')
+  }
+}
+
+/**
+ * Replaces the session's SKU data and hierarchy with the CSV rows, validating
+ * and inserting SKUs in batches as they are parsed. Everything runs in one
+ * transaction, so a rejected file leaves the stored data untouched.
+ */
+export async function importSkuCsv(
+  sessionId: string,
+  rows: AsyncIterable<CsvRow>,
+  mode: ImportValidationMode,
+  columnMapping: ColumnMappingChoice = NO_MAPPING
+): Promise<SkuImportOutcome> {
+  try {
+    return await prisma.$transaction(async (tx): Promise<SkuImportOutcome> => {
+      let validator: ReturnType<typeof createImportValidator> | null = null
+      let batch: SkuImportRow[] = []
+      let imported = 0
+      let batches = 0
+
+      const flush = async () => {
+        if (batch.length === 0) return
+        await tx.skuData.createMany({
+          data: batch.map(sku => ({ sessionId, ...sku }))
+        })
+        imported += batch.length
+        batches++
+        batch = []
+      }
+
+      for await (const row of rows) {
+        if (!validator) {
+          const columns = Object.keys(row)
+          validator = createImportValidator(columns, mode, resolveColumnMapping(columns, columnMapping))
+          if (validator.fileError) {
+            return { ok: false, error: 'CSV file has invalid columns', report: validator.report() }
+          }
+
+          await tx.allocation.deleteMany({ where: { sessionId } })
+          await tx.skuData.deleteMany({ where: { sessionId } })
+          await tx.hierarchyDefinition.deleteMany({ where: { sessionId } })
+          await tx.hierarchyDefinition.createMany({
+            data: validator.hierarchyColumns.map((col, index) => ({
+              sessionId,
+              level: index + 1,
+              columnName: col,
+              displayOrder: index + 1
+            }))
+          })
+        }
+
+        const sku = validator.validateRow(row)
+        // A strict import is rolled back on the first error, so stop writing and just keep validating
+        if (!sku || (mode === 'strict' && validator.hasErrors())) continue
+
+        batch.push(sku)
+        if (batch.length >= SKU_IMPORT_BATCH_SIZE) {
+          await flush()
+        }
+      }
+
+      if (!validator) {
+        return { ok: false, error: 'CSV file has no data rows' }
+      }
+
+      const report = validator.report()
+      if (!report.valid) {
+        throw new ImportRejectedError(report)
+      }
+
+      await flush()
+
+      return {
+        ok: true,
+        result: {
+          imported,
+          skipped: report.rejectedRows,
+          hierarchyColumns: validator.hierarchyColumns,
+          hierarchyLevels: validator.hierarchyColumns.length,
+          batches,
+          report
+        }
+      }
+    }, { timeout: IMPORT_TIMEOUT_MS })
+  } catch (error) {
+    if (error instanceof ImportRejectedError) {
+      return { ok: false, error: error.message, report: error.report }
+    }
+    throw error
+  }
+}
+
+export type SkuCollection =
+  | { ok: true; hierarchyColumns: string[]; skus: SkuImportRow[]; report: ImportValidationReport }
+  | { ok: false; error: string; report?: ImportValidationReport }
+
+/**
+ * Validates and reads every row into memory, for imports that compare the
+ * file with the stored data first.
+ */
+export async function collectSkuRows(
+  rows: AsyncIterable<CsvRow>,
+  mode: ImportValidationMode,
+  columnMapping: ColumnMappingChoice = NO_MAPPING
+): Promise<SkuCollection> {
+  let validator: ReturnType<typeof createImportValidator> | null = null
+  const skus: SkuImportRow[] = []
+
+  for await (const row of rows) {
+    if (!validator) {
+      const columns = Object.keys(row)
+      validator = createImportValidator(columns, mode, resolveColumnMapping(columns, columnMapping))
+      if (validator.fileError) {
+        return { ok: false, error: 'CSV file has invalid columns', report: validator.report() }
+      }
+    }
+
+    const sku = validator.validateRow(row)
+    if (sku) skus.push(sku)
+  }
+
+  if (!validator) {
+    return { ok: false, error: 'CSV file has no data rows' }
+  }
+
+  const report = validator.report()
+  if (!report.valid) {
+    return { ok: false, error: 'CSV file has invalid rows', report }
+  }
+
+  return { ok: true, hierarchyColumns: validator.hierarchyColumns, skus, report }
+}
+
+/**
+ * Swaps the session's SKU rows for `skus` in batches, leaving the hierarchy definitions as they are.
+ */
+export async function replaceSkuRows(tx: Prisma.TransactionClient, sessionId: string, skus: SkuImportRow[]): Promise<number> {
+  await tx.skuData.deleteMany({ where: { sessionId } })
+
+  let batches = 0
+  for (let i = 0; i < skus.length; i += SKU_IMPORT_BATCH_SIZE) {
+    await tx.skuData.createMany({
+      data: skus.slice(i, i + SKU_IMPORT_BATCH_SIZE).map(sku => ({ sessionId, ...sku }))
+    })
+    batches++
+  }
+  return batches
+}
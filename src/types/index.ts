@@ -1,15 +1,19 @@
-import { SessionStatus } from '@prisma/client'
+import { PeriodGranularity, PeriodStatus, PlanningMode, QuantityDistribution, RoundingMode, SessionStatus, UserRole } from '@prisma/client'
+
+export type { PeriodGranularity, PeriodStatus, PlanningMode, QuantityDistribution, RoundingMode, UserRole }
 
 export interface User {
   id: string
   email: string
   name: string | null
+  role: UserRole
 }
 
 export interface Category {
   id: string
   name: string
   userId: string
+  importMapping: ImportColumnMapping | null
   createdAt: Date
   updatedAt: Date
 }
@@ -19,6 +23,10 @@ export interface Session {
   categoryId: string
   name: string
   status: SessionStatus
+  roundingMode: RoundingMode
+  planningMode: PlanningMode
+  quantityDistribution: QuantityDistribution
+  seasonality: SeasonalityCurve | null
   createdAt: Date
   updatedAt: Date
 }
@@ -28,10 +36,22 @@ export interface PeriodBudget {
   sessionId: string
   period: string | null
   budget: bigint
+  startDate: Date | null
+  endDate: Date | null
+  granularity: PeriodGranularity | null
+  fiscalYear: number | null
+  status: PeriodStatus
   createdAt: Date
   updatedAt: Date
 }
 
+// Dates travel as YYYY-MM-DD strings over the API and as Date from Prisma
+export interface PeriodRange {
+  period: string | null
+  startDate?: Date | string | null
+  endDate?: Date | string | null
+}
+
 export interface HierarchyDefinition {
   id: string
   sessionId: string
@@ -45,6 +65,8 @@ export interface SkuData {
   sessionId: string
   skuCode: string
   unitPrice: number
+  caseSize: number | null
+  minOrderQty: number | null
   hierarchyValues: Record<string, string>
   createdAt: Date
 }
@@ -58,6 +80,8 @@ export interface Allocation {
   amount: bigint
   quantity: number
   period: string | null
+  skuQuantities: Record<string, number> | null
+  locked: boolean
   updatedAt: Date
 }
 
@@ -84,3 +108,268 @@ export interface ImportData {
   }>
   hierarchyColumns: string[]
 }
+
+export type AllocationSku = Pick<SkuData, 'skuCode' | 'unitPrice' | 'hierarchyValues'> &
+  Partial<Pick<SkuData, 'caseSize' | 'minOrderQty'>>
+
+export interface AllocationContext {
+  hierarchyDefinitions: Array<Pick<HierarchyDefinition, 'level' | 'columnName'>>
+  skuData: AllocationSku[]
+  periodBudgets: Array<{ period: string | null; budget: number }>
+  roundingMode: RoundingMode
+  planningMode: PlanningMode
+  quantityDistribution: QuantityDistribution
+  skusByPath: Map<string, AllocationSku[]>
+}
+
+export interface AllocationValues {
+  hierarchyPath: string
+  level: number
+  percentage: number
+  amount: number
+  quantity: number
+  period: string | null
+  skuQuantities?: Record<string, number> | null
+  locked?: boolean
+}
+
+export interface AllocationMismatch {
+  hierarchyPath: string
+  period: string | null
+  field: 'level' | 'amount' | 'quantity'
+  expected: number
+  actual: number
+}
+
+export interface AllocationChange {
+  hierarchyPath: string
+  level: number
+  period: string | null
+  amountBefore: number
+  amountAfter: number
+  percentageBefore: number
+  percentageAfter: number
+  quantityBefore: number
+  quantityAfter: number
+}
+
+export interface AllocationChangeSummary {
+  changed: number
+  unchanged: number
+  totalBefore: number
+  totalAfter: number
+  changes: AllocationChange[]
+}
+
+export type AllocationIssueType =
+  | 'percentage_total'
+  | 'orphan_path'
+  | 'negative_amount'
+  | 'amount_overflow'
+  | 'unallocated_sku'
+
+export interface AllocationIssue {
+  type: AllocationIssueType
+  severity: 'error' | 'warning'
+  period: string | null
+  hierarchyPath: string | null
+  message: string
+}
+
+export interface AllocationValidationReport {
+  valid: boolean
+  errorCount: number
+  warningCount: number
+  periods: Array<{
+    period: string | null
+    issues: AllocationIssue[]
+  }>
+}
+
+// variance = allocated - cost of the rounded units: positive is left over, negative is overspent
+export interface QuantityVariance {
+  hierarchyPath: string
+  period: string | null
+  amount: number
+  cost: number
+  variance: number
+}
+
+export interface QuantityVarianceReport {
+  periods: Array<{
+    period: string | null
+    budget: number
+    cost: number
+    variance: number
+    nodes: QuantityVariance[]
+  }>
+}
+
+export type AllocationStrategy = 'equal' | 'sku_count' | 'unit_price' | 'weights' | 'historical'
+
+export type GoalSeekTarget = 'budget' | 'percentage'
+
+export interface GoalSeekResult {
+  solveFor: GoalSeekTarget
+  period: string | null
+  hierarchyPath: string | null
+  targetQuantity: number
+  reachable: boolean
+  currentBudget: number
+  requiredBudget: number
+  currentQuantity: number
+  achievedQuantity: number
+  currentPercentage: number | null
+  requiredPercentage: number | null
+}
+
+// flat: equal weights, custom: user-entered weights, previous_session: another session's period budgets
+export type SeasonalityProfile = 'flat' | 'custom' | 'previous_session'
+
+export interface SeasonalityWeight {
+  period: string
+  weight: number
+}
+
+export interface SeasonalityCurve {
+  profile: SeasonalityProfile
+  sourceSessionId: string | null
+  annualBudget: number
+  weights: SeasonalityWeight[]
+}
+
+export interface CategoryPermissions {
+  canEdit: boolean
+  canDelete: boolean
+  // Delete even when the category holds confirmed sessions
+  canForceDelete: boolean
+  canCreateSession: boolean
+}
+
+export interface SessionPermissions {
+  canEdit: boolean
+  canDelete: boolean
+  // Periods the user may change: open periods of an editable session
+  editablePeriods: Array<string | null>
+}
+
+export interface CategoryDeletionSession {
+  id: string
+  name: string
+  status: SessionStatus
+  periodBudgets: number
+  hierarchyDefinitions: number
+  skuData: number
+  allocations: number
+}
+
+// Everything a category deletion cascades to
+export interface CategoryDeletionPlan {
+  categoryId: string
+  categoryName: string
+  sessions: CategoryDeletionSession[]
+  totals: Omit<CategoryDeletionSession, 'id' | 'name' | 'status'> & { sessions: number }
+  // Confirmed sessions block the deletion unless an admin forces it
+  confirmedSessions: CategoryDeletionSession[]
+}
+
+// One parsed CSV row ready to be stored as SkuData
+export interface SkuImportRow {
+  skuCode: string
+  unitPrice: number
+  caseSize?: number
+  minOrderQty?: number
+  hierarchyValues: Record<string, string>
+}
+
+export interface SkuImportResult {
+  imported: number
+  // Rows rejected by validation (lenient mode)
+  skipped: number
+  hierarchyColumns: string[]
+  hierarchyLevels: number
+  batches: number
+  report: ImportValidationReport
+}
+
+export type ImportIssueType =
+  | 'missing_columns'
+  | 'too_many_levels'
+  | 'missing_sku_code'
+  | 'duplicate_sku_code'
+  | 'invalid_price'
+  | 'invalid_order_constraint'
+  | 'empty_hierarchy_value'
+  | 'invalid_hierarchy_value'
+
+export interface ImportIssue {
+  type: ImportIssueType
+  severity: 'error' | 'warning'
+  // Line in the file counting the header as 1; null for problems with the file itself
+  row: number | null
+  column: string | null
+  skuCode: string | null
+  message: string
+}
+
+// Which CSV columns feed which SkuData fields; columns not listed are ignored
+export interface ImportColumnMapping {
+  skuCode: string
+  unitPrice: string
+  caseSize?: string | null
+  minOrderQty?: string | null
+  // Hierarchy levels from the top
+  hierarchy: string[]
+}
+
+// Excel saves Japanese CSV files as Shift_JIS (CP932) or UTF-8 with a BOM
+export type CsvEncoding = 'utf-8' | 'utf-8-bom' | 'shift_jis'
+
+// First rows of a file, for choosing the column mapping before importing
+export interface ImportPreview {
+  columns: string[]
+  rows: Array<Record<string, string>>
+  mapping: ImportColumnMapping
+  // The encoding the file was read with, detected unless one was chosen
+  encoding: CsvEncoding
+}
+
+// strict: any error rejects the file, lenient: rows with errors are skipped
+export type ImportValidationMode = 'strict' | 'lenient'
+
+export interface ImportValidationReport {
+  mode: ImportValidationMode
+  valid: boolean
+  totalRows: number
+  validRows: number
+  rejectedRows: number
+  errorCount: number
+  warningCount: number
+  issues: ImportIssue[]
+  // Only the first issues are listed for very large files; the counts cover every row
+  truncated: boolean
+}
+
+export interface SkuDiffEntry {
+  skuCode: string
+  path: string
+  unitPrice: number
+  // Set for SKUs that moved in the hierarchy or changed price
+  previousPath?: string
+  previousUnitPrice?: number
+}
+
+// Difference between the stored SKU data and a re-imported file
+export interface SkuDataDiff {
+  added: SkuDiffEntry[]
+  removed: SkuDiffEntry[]
+  priceChanged: SkuDiffEntry[]
+  moved: SkuDiffEntry[]
+  unchanged: number
+  // Nodes that disappear with their allocations
+  removedPaths: string[]
+  // New nodes; they start as placeholders
+  addedPaths: string[]
+  // Surviving groups whose SKUs changed; their allocations are kept but should be reviewed
+  reviewPaths: string[]
+}
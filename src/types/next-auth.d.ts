@@ -1,4 +1,5 @@
 import 'next-auth'
+import type { UserRole } from '@prisma/client'
 
 declare module 'next-auth' {
   interface Session {
@@ -6,6 +7,7 @@ declare module 'next-auth' {
       id: string
       email: string
       name?: string | null
+      role: UserRole
     }
   }
 
@@ -13,11 +15,13 @@ declare module 'next-auth' {
     id: string
     email: string
     name?: string | null
+    role: UserRole
   }
 }
 
 declare module 'next-auth/jwt' {
   interface JWT {
     id: string
+    role?: UserRole
   }
 }